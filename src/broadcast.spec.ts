@@ -0,0 +1,109 @@
+#!/usr/bin/env ts-node
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+// tslint:disable:no-shadowed-variable
+import test  from 'blue-tape'
+import sinon from 'sinon'
+
+import {
+  ContactPayload,
+  MessagePayload,
+  MessageType,
+  RoomPayload,
+}                     from 'wechaty-puppet'
+import { PuppetMock } from 'wechaty-puppet-mock'
+
+import { Wechaty }    from './wechaty'
+
+test('broadcast()', async t => {
+  const sandbox = sinon.createSandbox()
+
+  const puppet  = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+  await wechaty.start()
+
+  const ROOM_PAYLOAD_LIST = [
+    { id: 'room1', memberIdList: [], topic: 'team-dev' },
+    { id: 'room2', memberIdList: [], topic: 'family' },
+    { id: 'room3', memberIdList: [], topic: 'team-ops' },
+  ] as any as RoomPayload[]
+
+  sandbox.stub(puppet, 'contactPayload').callsFake(async (id: string) => ({ id, name: id } as ContactPayload))
+  sandbox.stub(puppet, 'roomPayload').callsFake(async (id: string) => ROOM_PAYLOAD_LIST.filter(p => p.id === id)[0])
+  sandbox.stub(puppet, 'roomSearch').callsFake(async (query: any) =>
+    ROOM_PAYLOAD_LIST.filter(p => query.topic.test(p.topic)).map(p => p.id),
+  )
+  sandbox.stub(puppet, 'messagePayload').resolves({
+    fromId    : 'c1',
+    id        : 'message1',
+    text      : 'hello',
+    timestamp : 100,
+    type      : MessageType.Text,
+  } as MessagePayload)
+
+  const sendText = sandbox.stub(puppet, 'messageSendText').callsFake(async (receiver: any) => {
+    if (receiver.contactId === 'c2') {
+      throw new Error('blocked')
+    }
+  })
+
+  const c1 = wechaty.Contact.load('c1')
+  const c2 = wechaty.Contact.load('c2')
+  await Promise.all([c1.ready(), c2.ready()])
+
+  const result = await wechaty.broadcast('hello', [c1, c2, c1], { concurrency: 2 })
+  t.equal(sendText.callCount, 2, 'should send only once to the same target')
+  t.deepEqual(result.successList.map(r => r.target.id), ['c1'], 'should report the succeeded targets')
+  t.deepEqual(result.failureList.map(r => r.target.id), ['c2'], 'should report the failed targets')
+  t.equal(result.failureList[0].error!.message, 'blocked', 'should report the error of the failed target')
+
+  sendText.resetHistory()
+  const queryResult = await wechaty.broadcast('hello', { room: { topic: /^team-/ } }, { delay: 10 })
+  t.deepEqual(sendText.getCalls().map(call => call.args[0]), [
+    { contactId: undefined, roomId: 'room1' },
+    { contactId: undefined, roomId: 'room3' },
+  ], 'should send to the rooms found by the query')
+  t.equal(queryResult.successList.length, 2, 'should report all the rooms as succeeded')
+
+  const messageForward = sandbox.stub(puppet, 'messageForward').callsFake(async (receiver: any) => {
+    if (receiver.roomId === 'room3') {
+      throw new Error('not in the room')
+    }
+  })
+  const message = wechaty.Message.load('message1')
+  await message.ready()
+  const [room1, room3] = await Promise.all(['room1', 'room3'].map(async id => {
+    const room = wechaty.Room.load(id)
+    await room.ready()
+    return room
+  }))
+
+  await message.forward([room1, c1])
+  t.deepEqual(messageForward.getCalls().map(call => call.args[1]), ['message1', 'message1'], 'should forward to all the targets')
+
+  try {
+    await message.forward([room1, room3])
+    t.fail('should reject')
+  } catch (e) {
+    t.true(/1 of 2/.test(e.message), 'should reject when forwarding failed for any target')
+  }
+
+  await wechaty.stop()
+  sandbox.restore()
+})
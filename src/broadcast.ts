@@ -0,0 +1,164 @@
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+import {
+  ContactQueryFilter,
+}                 from 'wechaty-puppet'
+
+import {
+  log,
+}                 from './config'
+import {
+  ScheduleContent,
+  sayContent,
+}                 from './scheduler'
+import {
+  Contact,
+  Message,
+  Room,
+  RoomUserQueryFilter,
+}                 from './user'
+import {
+  Wechaty,
+}                 from './wechaty'
+
+/**
+ * Anything that `say()` accepts, or the message to be forwarded
+ */
+export type BroadcastContent = ScheduleContent
+                             | Message
+
+/**
+ * Broadcast to the contacts and rooms found by `Contact.findAll()` and `Room.findAll()`
+ */
+export interface BroadcastQuery {
+  contact? : ContactQueryFilter,
+  room?    : RoomUserQueryFilter,
+}
+
+export interface BroadcastOptions {
+  /**
+   * Number of the targets to be sent at the same time. Default: 1
+   */
+  concurrency? : number,
+  /**
+   * Milliseconds to wait after every message before sending the next one. Default: 0
+   *
+   * The rate limits of the `SendQueue` will still be applied.
+   */
+  delay?       : number,
+}
+
+export interface BroadcastReport {
+  target   : Contact | Room,
+  /**
+   * The sent message, if the puppet supports to return it
+   */
+  message? : Message,
+  error?   : Error,
+}
+
+export interface BroadcastResult {
+  successList : BroadcastReport[],
+  failureList : BroadcastReport[],
+}
+
+/**
+ * Send the content to all the targets, and report the result of every target.
+ *
+ * It will never reject for the failure of a single target,
+ * check the `failureList` of the result instead.
+ */
+export async function broadcast (
+  wechaty : Wechaty,
+  content : BroadcastContent,
+  targets : Array<Contact | Room> | BroadcastQuery,
+  options : BroadcastOptions = {},
+): Promise<BroadcastResult> {
+  log.verbose('Broadcast', 'broadcast(%s, %s, %s)', content, JSON.stringify(targets), JSON.stringify(options))
+
+  const targetList  = await resolveTargetList(wechaty, targets)
+  const concurrency = Math.max(1, options.concurrency || 1)
+  const delay       = options.delay || 0
+
+  const result: BroadcastResult = {
+    failureList : [],
+    successList : [],
+  }
+
+  let next = 0
+  const worker = async () => {
+    while (next < targetList.length) {
+      const target = targetList[next++]
+
+      try {
+        if (content instanceof Message) {
+          await content.forward(target)
+          result.successList.push({ target })
+        } else {
+          const message = await sayContent(target, content)
+          result.successList.push({ message: message || undefined, target })
+        }
+      } catch (e) {
+        log.warn('Broadcast', 'broadcast() to %s rejection: %s', target, e && e.message)
+        result.failureList.push({ error: e, target })
+      }
+
+      if (delay && next < targetList.length) {
+        await new Promise(resolve => setTimeout(resolve, delay))
+      }
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, targetList.length) }, worker),
+  )
+
+  log.verbose('Broadcast', 'broadcast() done: %d succeeded, %d failed',
+    result.successList.length,
+    result.failureList.length,
+  )
+  return result
+}
+
+async function resolveTargetList (
+  wechaty : Wechaty,
+  targets : Array<Contact | Room> | BroadcastQuery,
+): Promise<Array<Contact | Room>> {
+  let targetList: Array<Contact | Room>
+
+  if (Array.isArray(targets)) {
+    targetList = targets
+  } else {
+    const [contactList, roomList] = await Promise.all([
+      targets.contact ? wechaty.Contact.findAll(targets.contact) : [],
+      targets.room    ? wechaty.Room.findAll(targets.room)       : [],
+    ])
+    targetList = [...contactList, ...roomList]
+  }
+
+  // send only once to the same target
+  const seen: { [id: string]: true } = {}
+  return targetList.filter(target => {
+    if (seen[target.id]) {
+      return false
+    }
+    seen[target.id] = true
+    return true
+  })
+}
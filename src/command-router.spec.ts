@@ -0,0 +1,97 @@
+#!/usr/bin/env ts-node
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+// tslint:disable:no-shadowed-variable
+import test  from 'blue-tape'
+import sinon from 'sinon'
+
+import { MessageType }  from 'wechaty-puppet'
+
+import {
+  Command,
+  CommandRouter,
+}                 from './command-router'
+
+function fakeMessage (text: string, topic?: string) {
+  return {
+    from        : () => ({ id: 'contact' }),
+    mentionInfo : async () => ({
+      mentionList: /^@bot/.test(text) ? [{ end: 4, name: 'bot', start: 0 }] : [],
+    }),
+    mentionSelf : async () => /^@bot/.test(text),
+    room        : () => topic === undefined ? null : { topic: async () => topic },
+    say         : sinon.spy(),
+    self        : () => false,
+    text        : () => text,
+    type        : () => MessageType.Text,
+  } as any
+}
+
+test('Command parse()', async t => {
+  const command = new Command('weather <city> [days]', () => undefined)
+
+  t.equal(command.name, 'weather', 'should get command name')
+  t.equal(command.usage('/'), '/weather <city> [days]', 'should get usage')
+  t.deepEqual(command.parse(['beijing']), { city: 'beijing' }, 'should parse required arg')
+  t.deepEqual(command.parse(['beijing', '3']), { city: 'beijing', days: '3' }, 'should parse optional arg')
+  t.equal(command.parse([]), null, 'should return null without required arg')
+  t.equal(command.parse(['a', 'b', 'c']), null, 'should return null with too many args')
+
+  const echo = new Command('echo <text...>', () => undefined)
+  t.deepEqual(echo.parse(['hello', 'world']), { text: 'hello world' }, 'should parse variadic arg')
+
+  t.throws(() => new Command('bad <a...> <b>', () => undefined), 'should throw when variadic param is not the last')
+})
+
+test('CommandRouter dispatch()', async t => {
+  const spy = sinon.spy()
+  const router = new CommandRouter()
+  router.command('weather <city> [days]', spy, { aliases: ['w'] })
+
+  t.true(await router.dispatch(fakeMessage('/weather beijing')), 'should handle command')
+  t.deepEqual(spy.firstCall.args[0].args, { city: 'beijing' }, 'should get args')
+
+  spy.resetHistory()
+  t.true(await router.dispatch(fakeMessage('/W "new york" 2')), 'should handle alias case insensitive')
+  t.deepEqual(spy.firstCall.args[0].args, { city: 'new york', days: '2' }, 'should keep quoted words together')
+
+  t.false(await router.dispatch(fakeMessage('weather beijing')), 'should ignore text without prefix')
+  t.false(await router.dispatch(fakeMessage('/unknown')), 'should ignore unknown command')
+
+  const message = fakeMessage('/weather')
+  t.true(await router.dispatch(message), 'should handle invalid args')
+  t.equal(message.say.firstCall.args[0], 'Usage: /weather <city> [days]', 'should reply usage')
+
+  const helpMessage = fakeMessage('/help')
+  await router.dispatch(helpMessage)
+  t.true(/\/weather <city> \[days\] \(\/w\)/.test(helpMessage.say.firstCall.args[0]), 'should reply help text')
+})
+
+test('CommandRouter scope', async t => {
+  const spy = sinon.spy()
+  const router = new CommandRouter({ mentionInRoom: true })
+  router.command('kick <name>', spy, { room: /^admin-/ })
+  router.command('ping', spy, { room: false })
+
+  t.false(await router.dispatch(fakeMessage('/kick foo', 'admin-room')), 'should ignore room message without mention')
+  t.true(await router.dispatch(fakeMessage('@bot /kick foo', 'admin-room')), 'should handle room message with mention')
+  t.false(await router.dispatch(fakeMessage('@bot /kick foo', 'other-room')), 'should ignore room not in scope')
+  t.false(await router.dispatch(fakeMessage('@bot /ping', 'admin-room')), 'should ignore command not allowed in room')
+  t.true(await router.dispatch(fakeMessage('/ping')), 'should handle command in 1:1 chat')
+})
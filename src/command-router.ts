@@ -0,0 +1,413 @@
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+import {
+  MessageType,
+}                 from 'wechaty-puppet'
+
+import {
+  log,
+}                 from './config'
+import {
+  WechatyPluginObject,
+}                 from './plugin'
+import {
+  Contact,
+  Message,
+  Room,
+}                 from './user'
+import {
+  Wechaty,
+}                 from './wechaty'
+
+export interface CommandArgs {
+  [name: string]: undefined | string,
+}
+
+export interface CommandContext {
+  message : Message,
+  command : Command,
+  args    : CommandArgs,
+  /**
+   * All the words after the command name
+   */
+  argList : string[],
+}
+
+export type CommandHandler = (context: CommandContext) => void | Promise<void>
+
+export interface CommandOptions {
+  aliases?     : string[],
+  description? : string,
+  /**
+   * Where the command can be used in rooms:
+   *  - `true`: all rooms (default)
+   *  - `false`: no room
+   *  - `string | RegExp`: the rooms which topic matched
+   *  - `function`: the rooms which the function returns true
+   */
+  room?        : boolean | string | RegExp | ((room: Room) => boolean | Promise<boolean>),
+  /**
+   * Who can use the command:
+   *  - `true`: everyone, in 1:1 chats and rooms (default)
+   *  - `false`: nobody in 1:1 chats (only in rooms)
+   *  - `function`: the contacts which the function returns true
+   */
+  contact?     : boolean | ((contact: Contact) => boolean | Promise<boolean>),
+}
+
+export interface CommandRouterOptions {
+  /**
+   * The prefix for all commands. Default: '/'
+   */
+  prefix?        : string,
+  /**
+   * Only react to commands in rooms when the bot is mentioned, like: "@bot /weather beijing". Default: false
+   */
+  mentionInRoom? : boolean,
+  /**
+   * Reply the usage of the command when the args are invalid. Default: true
+   */
+  replyUsage?    : boolean,
+  /**
+   * Register a `help` command which replies the help text of all commands. Default: true
+   */
+  help?          : boolean,
+}
+
+interface CommandParam {
+  name     : string,
+  optional : boolean,
+  variadic : boolean,
+}
+
+export class Command {
+
+  public readonly name     : string
+  public readonly paramList: CommandParam[]
+
+  constructor (
+    public readonly pattern : string,
+    public readonly handler : CommandHandler,
+    public readonly options : CommandOptions = {},
+  ) {
+    const [name, ...paramTokenList] = pattern.trim().split(/\s+/)
+    if (!name) {
+      throw new Error('command pattern has no name: ' + pattern)
+    }
+    this.name      = name.toLowerCase()
+    this.paramList = paramTokenList.map(parseParam)
+
+    const variadicIndex = this.paramList.findIndex(param => param.variadic)
+    if (variadicIndex > -1 && variadicIndex !== this.paramList.length - 1) {
+      throw new Error('only the last param can be variadic: ' + pattern)
+    }
+  }
+
+  public nameList (): string[] {
+    return [
+      this.name,
+      ...(this.options.aliases || []).map(alias => alias.toLowerCase()),
+    ]
+  }
+
+  public usage (prefix = ''): string {
+    return [
+      prefix + this.name,
+      ...this.paramList.map(param => {
+        const name = param.variadic ? param.name + '...' : param.name
+        return param.optional ? `[${name}]` : `<${name}>`
+      }),
+    ].join(' ')
+  }
+
+  /**
+   * Match the arg list to the params.
+   * Return `null` if the args is not valid for this command.
+   */
+  public parse (argList: string[]): null | CommandArgs {
+    const args: CommandArgs = {}
+
+    for (let i = 0; i < this.paramList.length; i++) {
+      const param = this.paramList[i]
+      const value = param.variadic
+        ? argList.slice(i).join(' ')
+        : argList[i]
+
+      if (!value) {
+        if (!param.optional) {
+          return null
+        }
+        continue
+      }
+      args[param.name] = value
+    }
+
+    const variadic = this.paramList.some(param => param.variadic)
+    if (!variadic && argList.length > this.paramList.length) {
+      return null
+    }
+
+    return args
+  }
+
+  public async allow (message: Message): Promise<boolean> {
+    const room    = message.room()
+    const contact = message.from()
+
+    const roomScope    = this.options.room    === undefined ? true : this.options.room
+    const contactScope = this.options.contact === undefined ? true : this.options.contact
+
+    if (room) {
+      if (!roomScope) {
+        return false
+      }
+      if (typeof roomScope === 'string' || roomScope instanceof RegExp) {
+        const topic = await room.topic()
+        const matched = typeof roomScope === 'string'
+          ? topic === roomScope
+          : roomScope.test(topic)
+        if (!matched) {
+          return false
+        }
+      } else if (typeof roomScope === 'function') {
+        if (!await roomScope(room)) {
+          return false
+        }
+      }
+    } else if (!contactScope) {
+      return false
+    }
+
+    if (typeof contactScope === 'function') {
+      if (!contact || !await contactScope(contact)) {
+        return false
+      }
+    }
+
+    return true
+  }
+
+}
+
+/**
+ * Route the text messages like "/weather beijing" to the command handlers.
+ *
+ * The router is a Wechaty plugin: use it by `bot.use(router)`.
+ *
+ * @example
+ * const router = new CommandRouter()
+ * router.command('weather <city> [days]', async ({ message, args }) => {
+ *   await message.say(`weather of ${args.city} in ${args.days || 1} days: sunny`)
+ * }, {
+ *   aliases     : ['w'],
+ *   description : 'Get the weather forecast',
+ * })
+ *
+ * const bot = new Wechaty()
+ * bot.use(router)
+ */
+export class CommandRouter implements WechatyPluginObject {
+
+  public readonly name = 'CommandRouter'
+
+  private readonly commandList : Command[]
+  private readonly options     : Required<CommandRouterOptions>
+
+  constructor (
+    options: CommandRouterOptions = {},
+  ) {
+    log.verbose('CommandRouter', 'constructor(%s)', JSON.stringify(options))
+
+    this.commandList = []
+    this.options = {
+      help          : true,
+      mentionInRoom : false,
+      prefix        : '/',
+      replyUsage    : true,
+      ...options,
+    }
+
+    if (this.options.help) {
+      this.command('help', async ({ message }) => {
+        await message.say(this.help())
+      }, {
+        description: 'Show this help',
+      })
+    }
+  }
+
+  /**
+   * Register a command.
+   *
+   * The pattern is the command name followed by the params:
+   *  - `<name>`: required param
+   *  - `[name]`: optional param
+   *  - `<name...>` or `[name...]`: the rest of the words, must be the last param
+   */
+  public command (
+    pattern  : string,
+    handler  : CommandHandler,
+    options? : CommandOptions,
+  ): this {
+    log.verbose('CommandRouter', 'command(%s)', pattern)
+
+    const command = new Command(pattern, handler, options)
+
+    for (const name of command.nameList()) {
+      if (this.find(name)) {
+        throw new Error(`command name "${name}" has already been registered`)
+      }
+    }
+
+    this.commandList.push(command)
+    return this
+  }
+
+  /**
+   * Find the command by name or alias
+   */
+  public find (name: string): undefined | Command {
+    name = name.toLowerCase()
+    return this.commandList.find(command => command.nameList().includes(name))
+  }
+
+  /**
+   * The help text for all the registered commands
+   */
+  public help (): string {
+    return this.commandList.map(command => {
+      const lineList = [this.options.prefix + command.usage()]
+      if (command.options.description) {
+        lineList.push(' - ' + command.options.description)
+      }
+      if (command.options.aliases && command.options.aliases.length) {
+        lineList.push(
+          ' (' + command.options.aliases.map(alias => this.options.prefix + alias).join(', ') + ')',
+        )
+      }
+      return lineList.join('')
+    }).join('\n')
+  }
+
+  public install (bot: Wechaty): void {
+    log.verbose('CommandRouter', 'install(%s)', bot)
+    bot.on('message', message => this.dispatch(message))
+  }
+
+  /**
+   * Dispatch the message to the matched command.
+   *
+   * @returns {Promise<boolean>} - `true` if the message has been handled by a command.
+   */
+  public async dispatch (message: Message): Promise<boolean> {
+    log.silly('CommandRouter', 'dispatch(%s)', message)
+
+    if (message.type() !== MessageType.Text || message.self()) {
+      return false
+    }
+
+    let text = message.text().trim()
+
+    if (message.room()) {
+      if (this.options.mentionInRoom && !await message.mentionSelf()) {
+        return false
+      }
+      text = await stripMention(message)
+    }
+
+    if (!text.startsWith(this.options.prefix)) {
+      return false
+    }
+
+    const [name, ...argList] = tokenize(text.slice(this.options.prefix.length))
+    if (!name) {
+      return false
+    }
+
+    const command = this.find(name)
+    if (!command) {
+      return false
+    }
+
+    if (!await command.allow(message)) {
+      log.verbose('CommandRouter', 'dispatch() command "%s" is not allowed for %s', command.name, message)
+      return false
+    }
+
+    const args = command.parse(argList)
+    if (!args) {
+      if (this.options.replyUsage) {
+        await message.say('Usage: ' + command.usage(this.options.prefix))
+      }
+      return true
+    }
+
+    await command.handler({
+      argList,
+      args,
+      command,
+      message,
+    })
+    return true
+  }
+
+}
+
+function parseParam (token: string): CommandParam {
+  const matched = /^([<[])([^>\]]+?)(\.\.\.)?[>\]]$/.exec(token)
+  if (!matched) {
+    throw new Error('invalid command param: ' + token)
+  }
+  return {
+    name     : matched[2],
+    optional : matched[1] === '[',
+    variadic : !!matched[3],
+  }
+}
+
+/**
+ * Split the text into words, the "double quoted words" will be kept together.
+ */
+function tokenize (text: string): string[] {
+  const tokenList: string[] = []
+  const re = /"([^"]*)"|(\S+)/g
+
+  let matched: null | RegExpExecArray
+  while ((matched = re.exec(text))) {
+    tokenList.push(matched[1] !== undefined ? matched[1] : matched[2])
+  }
+  return tokenList
+}
+
+/**
+ * Remove the leading "@name " from the text in rooms
+ */
+async function stripMention (message: Message): Promise<string> {
+  const text = message.text()
+  const { mentionList } = await message.mentionInfo()
+
+  let offset = 0
+  for (const mention of mentionList) {
+    if (text.slice(offset, mention.start).trim()) {
+      break
+    }
+    offset = mention.end
+  }
+  return text.slice(offset).trim()
+}
@@ -0,0 +1,94 @@
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+
+/**
+ * Rejected when we waited for something too long.
+ *
+ * @example
+ * try {
+ *   const reply = await contact.ask('What is your name?', { timeout: 60 * 1000 })
+ * } catch (e) {
+ *   if (e instanceof TimeoutError) {
+ *     await contact.say('Too slow!')
+ *   }
+ * }
+ */
+export class TimeoutError extends Error {
+
+  public readonly name = 'TimeoutError'
+
+  constructor (
+    message                 : string,
+    public readonly timeout : number,
+  ) {
+    super(message)
+  }
+
+}
+
+/**
+ * Rejected when the media file violates the size or type policy of the `MediaCache`.
+ * `message.toFileBox({ cache: true })` will return the file without caching it instead.
+ *
+ * @example
+ * try {
+ *   await mediaCache.put(message.id, fileBox)
+ * } catch (e) {
+ *   if (e instanceof MediaPolicyError) {
+ *     console.log(`${e.fileName} is not allowed: ${e.message}`)
+ *   }
+ * }
+ */
+export class MediaPolicyError extends Error {
+
+  public readonly name = 'MediaPolicyError'
+
+  constructor (
+    message                  : string,
+    public readonly fileName : string,
+  ) {
+    super(message)
+  }
+
+}
+
+/**
+ * Rejected when the puppet does not implement the feature.
+ *
+ * @example
+ * try {
+ *   await room.transferOwner(contact)
+ * } catch (e) {
+ *   if (e instanceof NotSupportedError) {
+ *     console.log(`${e.feature} is not supported by the puppet`)
+ *   }
+ * }
+ */
+export class NotSupportedError extends Error {
+
+  public readonly name = 'NotSupportedError'
+
+  constructor (
+    message                 : string,
+    public readonly feature : string,
+  ) {
+    super(message)
+  }
+
+}
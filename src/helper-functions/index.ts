@@ -2,6 +2,16 @@ export { getPort }        from './impure/get-port'
 export { generateToken }  from './impure/generate-token'
 
 export { tryWait }    from './pure/try-wait'
+export {
+  nextCronDate,
+  parseCron,
+}                     from './pure/cron'
+export {
+  DEFAULT_SPLIT_TEXT_MAX_LENGTH,
+  splitPoint,
+  splitText,
+  SplitTextOptions,
+}                     from './pure/split-text'
 export {
   digestEmoji,
   plainText,
@@ -0,0 +1,51 @@
+#!/usr/bin/env ts-node
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+// tslint:disable:no-shadowed-variable
+import test  from 'blue-tape'
+
+import {
+  nextCronDate,
+  parseCron,
+}                   from './cron'
+
+test('parseCron()', async t => {
+  const fields = parseCron('*/15 9-17 1,15 * 7')
+  t.deepEqual([...fields.minute], [0, 15, 30, 45], 'should parse step')
+  t.deepEqual([...fields.hour], [9, 10, 11, 12, 13, 14, 15, 16, 17], 'should parse range')
+  t.deepEqual([...fields.dayOfMonth], [1, 15], 'should parse list')
+  t.equal(fields.month.size, 12, 'should parse *')
+  t.deepEqual([...fields.dayOfWeek], [0], 'should treat 7 as Sunday')
+
+  t.throws(() => parseCron('* * * *'), 'should throw for 4 fields')
+  t.throws(() => parseCron('60 * * * *'), 'should throw for out of range value')
+  t.throws(() => parseCron('a * * * *'), 'should throw for invalid value')
+})
+
+test('nextCronDate()', async t => {
+  const after = new Date(2018, 5, 1, 8, 30, 15) // Friday, 2018-06-01 08:30:15
+
+  t.deepEqual(nextCronDate('* * * * *', after), new Date(2018, 5, 1, 8, 31), 'should be the next minute')
+  t.deepEqual(nextCronDate('0 9 * * *', after), new Date(2018, 5, 1, 9, 0), 'should be 9:00 today')
+  t.deepEqual(nextCronDate('0 8 * * *', after), new Date(2018, 5, 2, 8, 0), 'should be 8:00 tomorrow')
+  t.deepEqual(nextCronDate('0 9 * * 1', after), new Date(2018, 5, 4, 9, 0), 'should be next Monday')
+  t.deepEqual(nextCronDate('0 0 1 1 *', after), new Date(2019, 0, 1, 0, 0), 'should be next new year')
+  t.deepEqual(nextCronDate('0 9 15 * 1', after), new Date(2018, 5, 4, 9, 0), 'should match either day of month or day of week')
+  t.throws(() => nextCronDate('0 0 31 2 *', after), 'should throw if the date never comes')
+})
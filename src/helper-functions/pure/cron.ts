@@ -0,0 +1,152 @@
+/**
+ * Standard 5 fields cron expression: "minute hour day-of-month month day-of-week"
+ *
+ * Supports `*`, numbers, ranges `1-5`, steps `*\/15` `1-30/5` and lists `1,3,5`.
+ * Day of week is 0-7, both 0 and 7 are Sunday.
+ */
+export interface CronFields {
+  minute     : Set<number>,
+  hour       : Set<number>,
+  dayOfMonth : Set<number>,
+  month      : Set<number>, // 1-12
+  dayOfWeek  : Set<number>, // 0-6
+  /**
+   * Whether the day-of-month / day-of-week is restricted (not `*`)
+   */
+  domRestricted : boolean,
+  dowRestricted : boolean,
+}
+
+const FIELD_RANGE_LIST: Array<[number, number]> = [
+  [0, 59],  // minute
+  [0, 23],  // hour
+  [1, 31],  // day of month
+  [1, 12],  // month
+  [0, 7],   // day of week
+]
+
+/**
+ * Give up searching the next date after 5 years, for the expressions like "0 0 31 2 *"
+ */
+const MAX_SEARCH_YEARS = 5
+
+export function parseCron (expression: string): CronFields {
+  const fieldList = expression.trim().split(/\s+/)
+  if (fieldList.length !== 5) {
+    throw new Error(`cron expression should have 5 fields: "${expression}"`)
+  }
+
+  const [
+    minute,
+    hour,
+    dayOfMonth,
+    month,
+    dayOfWeek,
+  ] = fieldList.map((field, i) => parseField(field, FIELD_RANGE_LIST[i], expression))
+
+  if (dayOfWeek.has(7)) {
+    dayOfWeek.delete(7)
+    dayOfWeek.add(0)
+  }
+
+  return {
+    dayOfMonth,
+    dayOfWeek,
+    domRestricted : fieldList[2] !== '*',
+    dowRestricted : fieldList[4] !== '*',
+    hour,
+    minute,
+    month,
+  }
+}
+
+/**
+ * Get the next date (in local time) after `after` which matches the cron expression.
+ */
+export function nextCronDate (
+  cron  : string | CronFields,
+  after : Date = new Date(),
+): Date {
+  const fields = typeof cron === 'string'
+    ? parseCron(cron)
+    : cron
+
+  const date = new Date(after.getTime())
+  date.setSeconds(0, 0)
+  date.setMinutes(date.getMinutes() + 1)
+
+  const limit = new Date(date.getTime())
+  limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS)
+
+  while (date.getTime() < limit.getTime()) {
+    if (!fields.month.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1)
+      date.setHours(0, 0)
+      continue
+    }
+    if (!matchDay(fields, date)) {
+      date.setDate(date.getDate() + 1)
+      date.setHours(0, 0)
+      continue
+    }
+    if (!fields.hour.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0)
+      continue
+    }
+    if (!fields.minute.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1)
+      continue
+    }
+    return date
+  }
+
+  throw new Error('can not find the next date for the cron expression')
+}
+
+function matchDay (fields: CronFields, date: Date): boolean {
+  const domMatched = fields.dayOfMonth.has(date.getDate())
+  const dowMatched = fields.dayOfWeek.has(date.getDay())
+
+  /**
+   * When both of them are restricted, the day matches either of them. (same as the crontab)
+   */
+  if (fields.domRestricted && fields.dowRestricted) {
+    return domMatched || dowMatched
+  }
+  return domMatched && dowMatched
+}
+
+function parseField (
+  field      : string,
+  [min, max] : [number, number],
+  expression : string,
+): Set<number> {
+  const valueSet = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const matched = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part)
+    if (!matched) {
+      throw new Error(`invalid cron field "${field}" in "${expression}"`)
+    }
+
+    let start = min
+    let end   = max
+    if (matched[2] !== undefined) {
+      start = Number(matched[2])
+      end   = matched[3] !== undefined
+        ? Number(matched[3])
+        : matched[4] !== undefined ? max : start
+    }
+    const step = matched[4] !== undefined ? Number(matched[4]) : 1
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`out of range cron field "${field}" in "${expression}"`)
+    }
+
+    for (let value = start; value <= end; value += step) {
+      valueSet.add(value)
+    }
+  }
+
+  return valueSet
+}
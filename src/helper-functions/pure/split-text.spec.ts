@@ -0,0 +1,59 @@
+#!/usr/bin/env ts-node
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+// tslint:disable:no-shadowed-variable
+import test  from 'blue-tape'
+
+import {
+  splitPoint,
+  splitText,
+}               from './split-text'
+
+test('splitPoint()', async t => {
+  t.equal(splitPoint('short', 10), 5, 'should not split the short text')
+  t.equal(splitPoint('aaaa bbbb\n\ncccc dddd', 14), 9, 'should prefer the paragraph boundary')
+  t.equal(splitPoint('aaaa\n\nbbbb. cc dddd', 14), 11, 'should ignore the boundaries in the first half')
+  t.equal(splitPoint('第一句话。第二句话。第三句话', 12), 10, 'should split on the chinese sentence boundary')
+  t.equal(splitPoint('aaaa bbbb cccc', 12), 9, 'should fallback to the word boundary')
+  t.equal(splitPoint('aaaaaaaaaaaaaaaa', 10), -1, 'should return -1 without boundary')
+})
+
+test('splitText()', async t => {
+  t.deepEqual(splitText('hello', { maxLength: 10 }), ['hello'], 'should not split the short text')
+
+  t.deepEqual(
+    splitText('aaaa bbbb cccc dddd', { maxLength: 10 }),
+    ['aaaa bbbb', 'cccc dddd'],
+    'should split on the word boundaries',
+  )
+
+  t.deepEqual(
+    splitText('aaaa bbbb cccc dddd', { maxLength: 15, numbered: true }),
+    ['aaaa bbbb (1/2)', 'cccc dddd (2/2)'],
+    'should number the parts within the max length',
+  )
+
+  const partList = splitText('aaaa bbbb cccc dddd', { maxLength: 10, prefix: '@huan ' })
+  t.deepEqual(partList, ['aaaa', 'bbbb cccc', 'dddd'], 'should count the prefix in the first part')
+
+  const longList = splitText('a '.repeat(30), { maxLength: 12, numbered: true })
+  t.equal(longList.length, 15, 'should reserve more digits when there are more than 9 parts')
+  t.true(longList.every(part => part.length <= 12), 'should keep all the parts within the max length')
+  t.equal(longList[14], 'a a (15/15)', 'should number the last part with the total')
+})
@@ -0,0 +1,126 @@
+export interface SplitTextOptions {
+  /**
+   * Max length of every part, including the prefix and the number. Default: 2000
+   */
+  maxLength? : number,
+  /**
+   * Append the number like " (1/3)" to every part. Default: false
+   */
+  numbered?  : boolean,
+  /**
+   * The text which will be put before the first part by the caller, like the mentions.
+   * It will not be split, but its length will be counted in the first part.
+   */
+  prefix?    : string,
+}
+
+export const DEFAULT_SPLIT_TEXT_MAX_LENGTH = 2000
+
+/**
+ * Split the long text into parts on the paragraph, line, sentence or word boundaries if possible.
+ *
+ * @returns {string[]} - `[text]` if it is not too long. The `prefix` is not included.
+ */
+export function splitText (
+  text    : string,
+  options : SplitTextOptions = {},
+): string[] {
+  const maxLength    = options.maxLength || DEFAULT_SPLIT_TEXT_MAX_LENGTH
+  const prefixLength = (options.prefix || '').length
+
+  if (prefixLength + text.length <= maxLength) {
+    return [text]
+  }
+
+  if (!options.numbered) {
+    return splitParts(text, maxLength, prefixLength, 0)
+  }
+
+  /**
+   * Reserve the space for the number, and try again if the digits of the total are more than we reserved
+   */
+  for (let digits = 1; ; digits++) {
+    const nines    = '9'.repeat(digits)
+    const partList = splitParts(text, maxLength, prefixLength, ` (${nines}/${nines})`.length)
+
+    if (String(partList.length).length <= digits) {
+      return partList.map((part, i) => `${part} (${i + 1}/${partList.length})`)
+    }
+  }
+}
+
+/**
+ * The offset to cut the text which makes the head not longer than `length`,
+ * on the paragraph, line, sentence or word boundary. -1 if there's no boundary.
+ *
+ * The paragraph, line and sentence boundaries in the first half will be ignored for not making tiny parts.
+ */
+export function splitPoint (
+  text   : string,
+  length : number,
+): number {
+  if (text.length <= length) {
+    return text.length
+  }
+
+  const head = text.slice(0, length + 1)
+  const half = length / 2
+
+  const paragraph = head.lastIndexOf('\n\n')
+  if (paragraph > half) {
+    return paragraph
+  }
+
+  const line = head.lastIndexOf('\n')
+  if (line > half) {
+    return line
+  }
+
+  let sentence = -1
+  const sentenceRegex = /[。！？；]|[.!?;](?=\s)/g
+  let matched: null | RegExpExecArray
+  while ((matched = sentenceRegex.exec(head)) && matched.index < length) {
+    sentence = matched.index + 1
+  }
+  if (sentence > half) {
+    return sentence
+  }
+
+  const word = /\s\S*$/.exec(head)
+  if (word && word.index > 0) {
+    return word.index
+  }
+
+  return -1
+}
+
+function splitParts (
+  text        : string,
+  maxLength   : number,
+  firstOffset : number,
+  reserve     : number,
+): string[] {
+  const partList: string[] = []
+
+  let rest   = text
+  let offset = firstOffset
+
+  while (rest) {
+    const space = Math.max(1, maxLength - offset - reserve)
+    if (rest.length <= space) {
+      partList.push(rest.trimRight())
+      break
+    }
+
+    let cut = splitPoint(rest, space)
+    if (cut <= 0) {
+      cut = space
+    }
+
+    partList.push(rest.slice(0, cut).trimRight())
+    rest   = rest.slice(cut).replace(/^\s+/, '')
+    offset = 0
+  }
+
+  return partList
+}
@@ -6,6 +6,7 @@ export async function tryWait<T> (
     retry   : (error: Error) => never,
     attempt : number,
   ) => Promise<T>,
+  options: Partial<OperationOptions> = {},
 ): Promise<T> {
   /**
    * 60 seconds: (to be confirmed)
@@ -26,6 +27,7 @@ export async function tryWait<T> (
     minTimeout,
     retries,
     // unref,
+    ...options,
   }
   return promiseRetry(retryOptions, retryableFn)
 }
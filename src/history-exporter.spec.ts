@@ -0,0 +1,190 @@
+#!/usr/bin/env ts-node
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+// tslint:disable:no-shadowed-variable
+import fs   from 'fs'
+import os   from 'os'
+import path from 'path'
+
+import test  from 'blue-tape'
+import sinon from 'sinon'
+
+import { FileBox }    from 'file-box'
+import {
+  ContactPayload,
+  MessagePayload,
+  MessageType,
+  RoomMemberPayload,
+  RoomPayload,
+}                     from 'wechaty-puppet'
+import { PuppetMock } from 'wechaty-puppet-mock'
+
+import {
+  exportHistory,
+}                     from './history-exporter'
+import { Wechaty }    from './wechaty'
+
+const MESSAGE_PAYLOAD_LIST: MessagePayload[] = [
+  { fromId: 'contact1', id: 'm2', roomId: 'room1', text: '', timestamp: 200, type: MessageType.Image },
+  { fromId: 'contact1', id: 'm1', roomId: 'room1', text: 'hello <world>', timestamp: 100, type: MessageType.Text },
+  { fromId: 'contact2', id: 'm3', roomId: 'room1', text: '', timestamp: 300, type: MessageType.Url },
+] as MessagePayload[]
+
+test('exportHistory()', async t => {
+  const sandbox = sinon.createSandbox()
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wechaty-history-'))
+
+  const puppet  = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+  await wechaty.start()
+
+  sandbox.stub(puppet, 'messageSearch').resolves(MESSAGE_PAYLOAD_LIST.map(payload => payload.id))
+  sandbox.stub(puppet, 'messagePayload').callsFake(async (id: string) => MESSAGE_PAYLOAD_LIST.filter(p => p.id === id)[0])
+  sandbox.stub(puppet, 'messageFile').resolves(FileBox.fromBase64(Buffer.from('image').toString('base64'), 'cat photo.jpg'))
+  sandbox.stub(puppet, 'messageUrl').resolves({ title: 'Wechaty', url: 'https://github.com/chatie/wechaty' })
+  sandbox.stub(puppet, 'contactPayload').callsFake(async (id: string) => ({ id, name: `name of ${id}` } as ContactPayload))
+  sandbox.stub(puppet, 'roomPayload').resolves({ id: 'room1', memberIdList: [], topic: 'Room Topic' } as any as RoomPayload)
+  sandbox.stub(puppet, 'roomMemberList').resolves(['contact1', 'contact2'])
+  sandbox.stub(puppet, 'roomMemberPayload').callsFake(async (_: string, id: string) => ({
+    id,
+    roomAlias: id === 'contact1' ? 'alias1' : '',
+  } as RoomMemberPayload))
+
+  try {
+    const room = wechaty.Room.load('room1')
+    await room.ready()
+
+    const markdown = await exportHistory(room, { file: path.join(dir, 'history.md') })
+    t.equal(markdown.messageCount, 3, 'should export all the messages')
+    t.equal(markdown.attachmentList.length, 1, 'should save the attachment')
+    t.equal(fs.readFileSync(markdown.attachmentList[0], 'utf8'), 'image', 'should save the content of the attachment')
+
+    const text = fs.readFileSync(markdown.file, 'utf8')
+    t.true(text.startsWith('# Room Topic'), 'should render the room topic as the title')
+    t.true(text.indexOf('hello \\<world\\>') < text.indexOf('(history.md_files/m2-cat_photo.jpg)'),
+      'should render the messages sorted by date')
+    t.true(text.includes('**alias1**'), 'should render the room alias of the sender')
+    t.true(text.includes('[Wechaty](https://github.com/chatie/wechaty)'), 'should render the url link')
+
+    const html = await exportHistory(room, {
+      attachments : false,
+      file        : path.join(dir, 'history.html'),
+      since       : new Date(150 * 1000),
+    })
+    const htmlText = fs.readFileSync(html.file, 'utf8')
+    t.equal(html.messageCount, 2, 'should only export the messages in the time range')
+    t.false(htmlText.includes('hello'), 'should not render the messages out of range')
+    t.true(htmlText.includes('<a href="https://github.com/chatie/wechaty">Wechaty</a>'), 'should render the url link in html')
+
+    const json = await exportHistory(room, { file: path.join(dir, 'history.txt'), format: 'json' })
+    const doc = JSON.parse(fs.readFileSync(json.file, 'utf8'))
+    t.equal(doc.conversation.id, 'room1', 'should serialize the conversation')
+    t.deepEqual(doc.messages.map((m: any) => m.id), ['m1', 'm2', 'm3'], 'should serialize the messages')
+
+    try {
+      await exportHistory(room, { file: path.join(dir, 'history.txt') })
+      t.fail('should reject')
+    } catch (e) {
+      t.pass('should reject when the format can not be guessed')
+    }
+
+  } finally {
+    await wechaty.stop()
+    sandbox.restore()
+    fs.rmdirSync(dir, { recursive: true })
+  }
+})
+
+test('exportHistory() should not render the unsafe url link as a link', async t => {
+  const sandbox = sinon.createSandbox()
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wechaty-history-'))
+
+  const puppet  = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+  await wechaty.start()
+
+  const payloadList = [
+    { fromId: 'contact1', id: 'm1', roomId: 'room1', text: '', timestamp: 100, type: MessageType.Url },
+    { fromId: 'contact1', id: 'm2', roomId: 'room1', text: '', timestamp: 200, type: MessageType.Url },
+  ] as MessagePayload[]
+  const urlDict: { [id: string]: string } = {
+    m1: 'javascript:alert(1)',
+    m2: 'https://example.com/a (b)',
+  }
+
+  sandbox.stub(puppet, 'messageSearch').resolves(payloadList.map(payload => payload.id))
+  sandbox.stub(puppet, 'messagePayload').callsFake(async (id: string) => payloadList.filter(p => p.id === id)[0])
+  sandbox.stub(puppet, 'messageUrl').callsFake(async (id: string) => ({ title: `title ${id}`, url: urlDict[id] }))
+  sandbox.stub(puppet, 'contactPayload').callsFake(async (id: string) => ({ id, name: `name of ${id}` } as ContactPayload))
+  sandbox.stub(puppet, 'roomPayload').resolves({ id: 'room1', memberIdList: [], topic: 'Room Topic' } as any as RoomPayload)
+  sandbox.stub(puppet, 'roomMemberList').resolves(['contact1'])
+  sandbox.stub(puppet, 'roomMemberPayload').callsFake(async (_: string, id: string) => ({ id } as RoomMemberPayload))
+
+  try {
+    const room = wechaty.Room.load('room1')
+    await room.ready()
+
+    const html = fs.readFileSync((await exportHistory(room, { file: path.join(dir, 'history.html') })).file, 'utf8')
+    t.false(/href="javascript:/i.test(html), 'should not render the javascript: url as a link in html')
+    t.true(html.includes('title m1 javascript:alert(1)'), 'should render the javascript: url as plain text in html')
+
+    const markdown = fs.readFileSync((await exportHistory(room, { file: path.join(dir, 'history.md') })).file, 'utf8')
+    t.false(markdown.includes('](javascript:'), 'should not render the javascript: url as a link in markdown')
+    t.true(markdown.includes('[title m2](https://example.com/a%20%28b%29)'), 'should percent-encode the url in markdown')
+  } finally {
+    await wechaty.stop()
+    sandbox.restore()
+    fs.rmdirSync(dir, { recursive: true })
+  }
+})
+
+test('exportHistory() should save the attachment inside the attachment directory', async t => {
+  const sandbox = sinon.createSandbox()
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wechaty-history-'))
+
+  const puppet  = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+  await wechaty.start()
+
+  const payloadList = [
+    { fromId: 'contact1', id: '../../evil', roomId: 'room1', text: '', timestamp: 100, type: MessageType.Image },
+  ] as MessagePayload[]
+
+  sandbox.stub(puppet, 'messageSearch').resolves(payloadList.map(payload => payload.id))
+  sandbox.stub(puppet, 'messagePayload').callsFake(async (id: string) => payloadList.filter(p => p.id === id)[0])
+  sandbox.stub(puppet, 'messageFile').resolves(FileBox.fromBase64(Buffer.from('image').toString('base64'), 'cat.jpg'))
+  sandbox.stub(puppet, 'contactPayload').callsFake(async (id: string) => ({ id, name: `name of ${id}` } as ContactPayload))
+  sandbox.stub(puppet, 'roomPayload').resolves({ id: 'room1', memberIdList: [], topic: 'Room Topic' } as any as RoomPayload)
+  sandbox.stub(puppet, 'roomMemberList').resolves(['contact1'])
+  sandbox.stub(puppet, 'roomMemberPayload').callsFake(async (_: string, id: string) => ({ id } as RoomMemberPayload))
+
+  try {
+    const room = wechaty.Room.load('room1')
+    await room.ready()
+
+    const file = path.join(dir, 'history.md')
+    const result = await exportHistory(room, { file })
+    t.equal(result.attachmentList.length, 1, 'should save the attachment')
+    t.equal(path.dirname(result.attachmentList[0]), file + '_files', 'should save the attachment inside the attachment directory')
+  } finally {
+    await wechaty.stop()
+    sandbox.restore()
+    fs.rmdirSync(dir, { recursive: true })
+  }
+})
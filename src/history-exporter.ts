@@ -0,0 +1,473 @@
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+import fs   from 'fs'
+import path from 'path'
+import {
+  URL,
+}           from 'url'
+
+import {
+  MessageType,
+}                 from 'wechaty-puppet'
+
+import {
+  log,
+}                 from './config'
+import {
+  Contact,
+  Message,
+  Room,
+}                 from './user'
+
+export type HistoryExportFormat = 'html'
+                                | 'json'
+                                | 'markdown'
+
+export interface HistoryExportOptions {
+  /**
+   * The file to write the history to.
+   * The attachments will be saved to the `<file>_files` directory alongside it.
+   */
+  file         : string,
+  /**
+   * Default: guess by the extension of the `file`, `.html`, `.md` or `.json`
+   */
+  format?      : HistoryExportFormat,
+  since?       : Date,
+  until?       : Date,
+  /**
+   * Save the images, videos and files of the messages. Default: true
+   */
+  attachments? : boolean,
+}
+
+export interface HistoryExportResult {
+  file           : string,
+  messageCount   : number,
+  attachmentList : string[],
+}
+
+/**
+ * One message in the exported history
+ */
+export interface HistoryEntry {
+  id          : string,
+  date        : Date,
+  fromId?     : string,
+  fromName    : string,
+  type        : MessageType,
+  text        : string,
+  /**
+   * The path of the attachment file, relative to the exported file
+   */
+  attachment? : string,
+  urlLink?    : {
+    url          : string,
+    title        : string,
+    description? : string,
+  },
+  contact?    : {
+    id   : string,
+    name : string,
+  },
+}
+
+interface HistoryDocument {
+  title     : string,
+  since?    : Date,
+  until?    : Date,
+  entryList : HistoryEntry[],
+}
+
+const FILE_MESSAGE_TYPE_LIST = [
+  MessageType.Attachment,
+  MessageType.Audio,
+  MessageType.Emoticon,
+  MessageType.Image,
+  MessageType.Video,
+]
+
+/**
+ * Export the chat history of the room, or the 1:1 conversation with the contact.
+ *
+ * The messages are found by `Message.findAll()`,
+ * so set the `messageArchive` option of Wechaty to export the messages which are not in the puppet cache.
+ *
+ * @example
+ * await exportHistory(room, {
+ *   file  : '/tmp/wechaty-room.html',
+ *   since : new Date('2018-01-01'),
+ * })
+ */
+export async function exportHistory (
+  conversation : Contact | Room,
+  options      : HistoryExportOptions,
+): Promise<HistoryExportResult> {
+  log.verbose('HistoryExporter', 'exportHistory(%s, %s)', conversation, options.file)
+
+  const format = options.format || guessFormat(options.file)
+
+  const messageList = await findMessageList(conversation, options)
+
+  const attachmentDir = options.file + '_files'
+  const attachmentList: string[] = []
+
+  const entryList: HistoryEntry[] = []
+  for (const message of messageList) {
+    const entry = await toEntry(message, conversation)
+
+    if (options.attachments !== false && FILE_MESSAGE_TYPE_LIST.includes(entry.type)) {
+      try {
+        const fileBox = await message.toFileBox()
+        const attachment = path.join(attachmentDir, `${safeFileName(message.id)}-${safeFileName(fileBox.name)}`)
+
+        await fs.promises.mkdir(attachmentDir, { recursive: true })
+        await fileBox.toFile(attachment, true)
+
+        entry.attachment = path.relative(path.dirname(options.file), attachment)
+        attachmentList.push(attachment)
+      } catch (e) {
+        log.warn('HistoryExporter', 'exportHistory() save attachment of %s failed: %s', message, e && e.message)
+      }
+    }
+
+    entryList.push(entry)
+  }
+
+  const title = conversation instanceof Room
+    ? await conversation.topic()
+    : (conversation as Contact).name()
+
+  const doc: HistoryDocument = {
+    entryList,
+    since : options.since,
+    title,
+    until : options.until,
+  }
+
+  let content: string
+  switch (format) {
+    case 'html':
+      content = renderHtml(doc)
+      break
+    case 'json':
+      content = renderJson(doc, conversation)
+      break
+    case 'markdown':
+      content = renderMarkdown(doc)
+      break
+    default:
+      throw new Error('unsupported history export format: ' + format)
+  }
+
+  await fs.promises.writeFile(options.file, content)
+
+  return {
+    attachmentList,
+    file         : options.file,
+    messageCount : entryList.length,
+  }
+}
+
+function guessFormat (file: string): HistoryExportFormat {
+  const ext = path.extname(file).toLowerCase()
+  switch (ext) {
+    case '.htm':
+    case '.html':
+      return 'html'
+    case '.json':
+      return 'json'
+    case '.md':
+    case '.markdown':
+      return 'markdown'
+    default:
+      throw new Error(`can not guess the history export format from "${file}", please set the format option`)
+  }
+}
+
+async function findMessageList (
+  conversation : Contact | Room,
+  options      : HistoryExportOptions,
+): Promise<Message[]> {
+  const Msg = conversation.wechaty.Message
+  const range = {
+    since : options.since,
+    until : options.until,
+  }
+
+  let messageList: Message[]
+
+  if (conversation instanceof Room) {
+    messageList = await Msg.findAll({ ...range, room: conversation })
+  } else {
+    const contact = conversation as Contact
+    const self    = conversation.wechaty.Contact.load(conversation.puppet.selfId())
+
+    const [receivedList, sentList] = await Promise.all([
+      Msg.findAll({ ...range, from: contact }),
+      Msg.findAll({ ...range, from: self, to: contact }),
+    ])
+    messageList = [...receivedList, ...sentList]
+      .filter(message => !message.room())
+  }
+
+  const messageMap = new Map<string, Message>()
+  for (const message of messageList) {
+    messageMap.set(message.id, message)
+  }
+
+  return [...messageMap.values()]
+    .sort((a, b) => a.date().getTime() - b.date().getTime())
+}
+
+async function toEntry (
+  message      : Message,
+  conversation : Contact | Room,
+): Promise<HistoryEntry> {
+  const from = message.from()
+
+  let fromName = ''
+  if (from) {
+    // the contacts of the messages from the archive had not been loaded
+    await from.ready().catch(e => log.warn('HistoryExporter', 'toEntry() %s ready() rejection: %s', from, e && e.message))
+    const alias = conversation instanceof Room
+      ? await conversation.alias(from).catch(() => null)
+      : null
+    fromName = alias || from.name() || from.id
+  }
+
+  const entry: HistoryEntry = {
+    date   : message.date(),
+    fromId : from ? from.id : undefined,
+    fromName,
+    id     : message.id,
+    text   : message.text(),
+    type   : message.type(),
+  }
+
+  try {
+    if (entry.type === MessageType.Url) {
+      const urlLink = await message.toUrlLink()
+      entry.urlLink = {
+        description : urlLink.description(),
+        title       : urlLink.title(),
+        url         : urlLink.url(),
+      }
+    } else if (entry.type === MessageType.Contact) {
+      const contact = await message.toContact()
+      entry.contact = {
+        id   : contact.id,
+        name : contact.name() || contact.id,
+      }
+    }
+  } catch (e) {
+    log.warn('HistoryExporter', 'toEntry() %s failed: %s', message, e && e.message)
+  }
+
+  return entry
+}
+
+/**
+ * The url of the link is set by the sender, only allow the `http:` and `https:` links to be rendered,
+ * for not making a `javascript:` or `data:` link clickable in the exported history.
+ *
+ * @returns {undefined | string} - `undefined` if the url is not safe
+ */
+function safeUrl (url: string): undefined | string {
+  try {
+    const parsed = new URL(url)
+    if (parsed.protocol === 'http:' || parsed.protocol === 'https:') {
+      return parsed.href
+    }
+  } catch (e) {
+    log.verbose('HistoryExporter', 'safeUrl(%s) invalid: %s', url, e && e.message)
+  }
+  return undefined
+}
+
+function safeFileName (name: string): string {
+  return name.replace(/[\\/:*?"<>|\s]+/g, '_') || 'file'
+}
+
+function formatDate (date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return [
+    date.getFullYear(),
+    '-',
+    pad(date.getMonth() + 1),
+    '-',
+    pad(date.getDate()),
+    ' ',
+    pad(date.getHours()),
+    ':',
+    pad(date.getMinutes()),
+    ':',
+    pad(date.getSeconds()),
+  ].join('')
+}
+
+function formatRange (doc: HistoryDocument): string {
+  if (!doc.since && !doc.until) {
+    return ''
+  }
+  return [
+    doc.since ? formatDate(doc.since) : '',
+    doc.until ? formatDate(doc.until) : '',
+  ].join(' ~ ')
+}
+
+function renderJson (
+  doc          : HistoryDocument,
+  conversation : Contact | Room,
+): string {
+  return JSON.stringify({
+    conversation : conversation.toJSON(),
+    exportedAt   : new Date(),
+    messages     : doc.entryList,
+    since        : doc.since,
+    title        : doc.title,
+    until        : doc.until,
+  }, null, 2)
+}
+
+function escapeMarkdown (text: string): string {
+  return text.replace(/([\\`*_[\]<>#|])/g, '\\$1')
+}
+
+/**
+ * Percent-encode the characters which end the link destination of markdown
+ */
+function escapeMarkdownUrl (url: string): string {
+  return url.replace(/[\s()<>]/g, c => encodeURIComponent(c)
+    .replace(/\(/g, '%28')
+    .replace(/\)/g, '%29'),
+  )
+}
+
+function renderMarkdown (doc: HistoryDocument): string {
+  const lineList: string[] = [
+    `# ${escapeMarkdown(doc.title)}`,
+    '',
+  ]
+
+  const range = formatRange(doc)
+  if (range) {
+    lineList.push(`_${range}_`, '')
+  }
+
+  for (const entry of doc.entryList) {
+    lineList.push(`**${escapeMarkdown(entry.fromName)}** ${formatDate(entry.date)}`, '')
+
+    if (entry.attachment) {
+      const link = encodeURI(entry.attachment.split(path.sep).join('/'))
+      const name = escapeMarkdown(path.basename(entry.attachment))
+      lineList.push(entry.type === MessageType.Image
+        ? `![${name}](${link})`
+        : `[${name}](${link})`,
+      )
+    } else if (entry.urlLink) {
+      const url = safeUrl(entry.urlLink.url)
+      lineList.push(url
+        ? `[${escapeMarkdown(entry.urlLink.title)}](${escapeMarkdownUrl(url)})`
+        : `${escapeMarkdown(entry.urlLink.title)} ${escapeMarkdown(entry.urlLink.url)}`,
+      )
+      if (entry.urlLink.description) {
+        lineList.push('', `> ${escapeMarkdown(entry.urlLink.description)}`)
+      }
+    } else if (entry.contact) {
+      lineList.push(`[Contact Card] ${escapeMarkdown(entry.contact.name)}`)
+    } else {
+      lineList.push(escapeMarkdown(entry.text).split('\n').join('  \n'))
+    }
+
+    lineList.push('')
+  }
+
+  return lineList.join('\n')
+}
+
+function escapeHtml (text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+const HTML_STYLE = [
+  'body { font-family: sans-serif; max-width: 800px; margin: 0 auto; padding: 1em; }',
+  '.message { margin: 1em 0; }',
+  '.from { font-weight: bold; }',
+  '.date { color: #999; font-size: 0.8em; margin-left: 0.5em; }',
+  '.content { margin-top: 0.3em; white-space: pre-wrap; word-wrap: break-word; }',
+  '.content img { max-width: 100%; }',
+].join('\n')
+
+function renderHtml (doc: HistoryDocument): string {
+  const range = formatRange(doc)
+
+  const messageHtmlList = doc.entryList.map(entry => {
+    let content: string
+    if (entry.attachment) {
+      const link = escapeHtml(encodeURI(entry.attachment.split(path.sep).join('/')))
+      const name = escapeHtml(path.basename(entry.attachment))
+      content = entry.type === MessageType.Image
+        ? `<img src="${link}" alt="${name}">`
+        : `<a href="${link}">${name}</a>`
+    } else if (entry.urlLink) {
+      const url = safeUrl(entry.urlLink.url)
+      content = url
+        ? `<a href="${escapeHtml(url)}">${escapeHtml(entry.urlLink.title)}</a>`
+        : `${escapeHtml(entry.urlLink.title)} ${escapeHtml(entry.urlLink.url)}`
+      if (entry.urlLink.description) {
+        content += `<br>${escapeHtml(entry.urlLink.description)}`
+      }
+    } else if (entry.contact) {
+      content = `[Contact Card] ${escapeHtml(entry.contact.name)}`
+    } else {
+      content = escapeHtml(entry.text)
+    }
+
+    return [
+      `<div class="message" id="${escapeHtml(entry.id)}">`,
+      `<span class="from">${escapeHtml(entry.fromName)}</span>`,
+      `<span class="date">${formatDate(entry.date)}</span>`,
+      `<div class="content">${content}</div>`,
+      '</div>',
+    ].join('')
+  })
+
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(doc.title)}</title>`,
+    `<style>\n${HTML_STYLE}\n</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(doc.title)}</h1>`,
+    range ? `<p class="date">${range}</p>` : '',
+    ...messageHtmlList,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n')
+}
@@ -0,0 +1,126 @@
+#!/usr/bin/env ts-node
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+// tslint:disable:no-shadowed-variable
+import http  from 'http'
+
+import test  from 'blue-tape'
+import sinon from 'sinon'
+
+import {
+  ContactPayload,
+  RoomPayload,
+}                     from 'wechaty-puppet'
+import { PuppetMock } from 'wechaty-puppet-mock'
+
+import { HttpGateway }  from './http-gateway'
+import { Wechaty }      from './wechaty'
+
+const TOKEN = 'secret'
+
+test('HttpGateway', async t => {
+  const puppet  = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+  await wechaty.start()
+
+  const sandbox = sinon.createSandbox()
+  sandbox.stub(puppet, 'contactSearch').resolves(['contact1'])
+  sandbox.stub(puppet, 'contactPayload').callsFake(async (id: string) => {
+    if (id === 'missing') {
+      throw new Error('not found')
+    }
+    return { id, name: 'name-' + id } as ContactPayload
+  })
+  sandbox.stub(puppet, 'roomPayload').callsFake(async (id: string) => ({ id, memberIdList: ['contact1'], topic: 'topic' } as RoomPayload))
+  sandbox.stub(puppet, 'roomMemberList').resolves(['contact1'])
+  sandbox.stub(puppet, 'roomMemberPayload').resolves({} as any)
+  const sendStub = sandbox.stub(puppet, 'messageSendText').resolves()
+
+  const gateway = new HttpGateway(wechaty, { port: 0, token: TOKEN })
+  await gateway.start()
+  const port = gateway.port()!
+
+  let res = await request(port, 'GET', '/contacts?name=name-contact1', undefined, '')
+  t.equal(res.status, 401, 'should reject the request without token')
+
+  res = await request(port, 'GET', '/contacts?name=name-contact1')
+  t.equal(res.status, 200, 'should get contacts')
+  t.deepEqual(res.body.map((c: any) => c.id), ['contact1'], 'should find the contact by name')
+
+  res = await request(port, 'GET', '/rooms/room1/members')
+  t.equal(res.body[0].payload.name, 'name-contact1', 'should get room members')
+
+  res = await request(port, 'POST', '/rooms/room1/messages', { mentionIdList: ['contact1'], text: 'hello' })
+  t.equal(res.status, 200, 'should send message to room')
+  t.deepEqual(sendStub.firstCall.args[0], { contactId: 'contact1', roomId: 'room1' }, 'should send to the room')
+  t.deepEqual((sendStub.firstCall.args as any[])[2], ['contact1'], 'should mention the contact')
+
+  res = await request(port, 'POST', '/rooms/room1/messages', { mentionIdList: ['missing'], text: 'hello' })
+  t.equal(res.status, 404, 'should return 404 for the mentioned contact not found')
+
+  res = await request(port, 'POST', '/contacts/contact1/messages', { unknown: true })
+  t.equal(res.status, 400, 'should reject invalid message body')
+
+  res = await request(port, 'POST', '/contacts/contact1/messages', { file: { name: 'a.txt', url: 'http://127.0.0.1/' } })
+  t.equal(res.status, 400, 'should reject the file url by default')
+
+  res = await request(port, 'GET', '/not-exist')
+  t.equal(res.status, 404, 'should return 404 for unknown path')
+
+  res = await request(port, 'DELETE', '/rooms/room1/members')
+  t.equal(res.status, 405, 'should return 405 for the method not allowed')
+
+  res = await request(port, 'GET', '/rooms/%E0/members')
+  t.equal(res.status, 400, 'should return 400 for malformed path parameter')
+
+  await gateway.stop()
+  await wechaty.stop()
+  sandbox.restore()
+})
+
+test('HttpGateway option fileUrl requires the token', async t => {
+  const wechaty = new Wechaty({ puppet: new PuppetMock() })
+
+  t.throws(() => new HttpGateway(wechaty, { fileUrl: true }), 'should throw without token')
+  t.doesNotThrow(() => new HttpGateway(wechaty, { fileUrl: true, token: TOKEN }), 'should be created with token')
+})
+
+async function request (
+  port   : number,
+  method : string,
+  path   : string,
+  body?  : object,
+  token  = TOKEN,
+): Promise<{ status: number, body: any }> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({
+      headers  : token ? { Authorization: `Bearer ${token}` } : {},
+      hostname : '127.0.0.1',
+      method,
+      path,
+      port,
+    }, res => {
+      let data = ''
+      res.on('data', chunk => { data += chunk })
+      res.on('end', () => resolve({ body: JSON.parse(data), status: res.statusCode || 0 }))
+    })
+    req.on('error', reject)
+    req.end(body ? JSON.stringify(body) : undefined)
+  })
+}
@@ -0,0 +1,371 @@
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+import http from 'http'
+import {
+  URL,
+  URLSearchParams,
+}                   from 'url'
+
+import {
+  FileBox,
+}                   from 'file-box'
+
+import {
+  config,
+  log,
+}                   from './config'
+import {
+  Contact,
+  MiniProgram,
+  Room,
+  UrlLink,
+}                   from './user'
+import {
+  Wechaty,
+}                   from './wechaty'
+
+export interface HttpGatewayOptions {
+  /**
+   * Default: `config.httpPort`
+   */
+  port?  : number,
+  /**
+   * Default: '127.0.0.1', only local services can access the gateway
+   */
+  host?  : string,
+  /**
+   * Require the `Authorization: Bearer <token>` header if set
+   */
+  token? : string,
+  /**
+   * Allow sending the file by `{ file: { name, url } }`. Default: false
+   *
+   * The bot will fetch any URL given by the caller, so it requires the `token`.
+   */
+  fileUrl? : boolean,
+}
+
+type HttpGatewayHandler = (
+  paramList : string[],
+  query     : URLSearchParams,
+  body      : any,
+) => Promise<any>
+
+interface HttpGatewayRoute {
+  method  : string,
+  path    : RegExp,
+  handler : HttpGatewayHandler,
+}
+
+class HttpGatewayError extends Error {
+
+  constructor (
+    public readonly status : number,
+    message                : string,
+  ) {
+    super(message)
+  }
+
+}
+
+/**
+ * Max size of the request body: 10MB, for sending files in base64
+ */
+const MAX_BODY_SIZE = 10 * 1024 * 1024
+
+/**
+ * A REST API for the services which can not embed Wechaty.
+ *
+ * All the request and response bodies are JSON,
+ * and the contacts, rooms and messages are responded by their `toJSON()`:
+ *  - `GET  /contacts?name=&alias=`
+ *  - `POST /contacts/:id/messages`
+ *  - `GET  /rooms?topic=`
+ *  - `POST /rooms/:id/messages`
+ *  - `GET  /rooms/:id/members`
+ *  - `POST /friendships`         with `{ contactId, hello }`
+ *
+ * The message body can be one of:
+ *  - `{ text, mentionIdList? }`  (`mentionIdList` is for rooms only)
+ *  - `{ contactId }`             for the contact card
+ *  - `{ file: { name, base64 } }`, or `{ file: { name, url } }` if the `fileUrl` option is set
+ *  - `{ urlLink: UrlLinkPayload }`
+ *  - `{ miniProgram: MiniProgramPayload }`
+ */
+export class HttpGateway {
+
+  private readonly routeList : HttpGatewayRoute[]
+  private server?            : http.Server
+
+  constructor (
+    private readonly wechaty : Wechaty,
+    private readonly options : HttpGatewayOptions = {},
+  ) {
+    log.verbose('HttpGateway', 'constructor(%s, {port: %s})', wechaty, options.port || '')
+
+    if (options.fileUrl && !options.token) {
+      throw new Error('HttpGateway option fileUrl requires the token')
+    }
+
+    this.routeList = [
+      { handler: this.contactList.bind(this),     method: 'GET',  path: /^\/contacts$/ },
+      { handler: this.contactMessage.bind(this),  method: 'POST', path: /^\/contacts\/([^/]+)\/messages$/ },
+      { handler: this.roomList.bind(this),        method: 'GET',  path: /^\/rooms$/ },
+      { handler: this.roomMessage.bind(this),     method: 'POST', path: /^\/rooms\/([^/]+)\/messages$/ },
+      { handler: this.roomMemberList.bind(this),  method: 'GET',  path: /^\/rooms\/([^/]+)\/members$/ },
+      { handler: this.friendshipAdd.bind(this),   method: 'POST', path: /^\/friendships$/ },
+    ]
+  }
+
+  /**
+   * The port which the gateway is listening on, `undefined` if it is not started
+   */
+  public port (): undefined | number {
+    if (!this.server) {
+      return undefined
+    }
+    const address = this.server.address()
+    return typeof address === 'object' && address
+      ? address.port
+      : undefined
+  }
+
+  public async start (): Promise<void> {
+    log.verbose('HttpGateway', 'start()')
+
+    if (this.server) {
+      throw new Error('HttpGateway had already been started')
+    }
+
+    const port = this.options.port !== undefined
+      ? this.options.port
+      : Number(config.httpPort)
+    const host = this.options.host || '127.0.0.1'
+
+    const server = http.createServer((req, res) => {
+      this.handle(req, res)
+        .catch(e => log.error('HttpGateway', 'start() handle() rejection: %s', e))
+    })
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(port, host, () => {
+        server.removeListener('error', reject)
+        resolve()
+      })
+    })
+    this.server = server
+
+    log.info('HttpGateway', 'start() listening on http://%s:%s', host, this.port())
+  }
+
+  public async stop (): Promise<void> {
+    log.verbose('HttpGateway', 'stop()')
+
+    const server = this.server
+    if (!server) {
+      return
+    }
+    this.server = undefined
+
+    await new Promise<void>((resolve, reject) => {
+      server.close(e => e ? reject(e) : resolve())
+    })
+  }
+
+  private async handle (
+    req : http.IncomingMessage,
+    res : http.ServerResponse,
+  ): Promise<void> {
+    log.verbose('HttpGateway', 'handle() %s %s', req.method, req.url)
+
+    let status = 200
+    let result: any
+
+    try {
+      if (this.options.token && req.headers.authorization !== `Bearer ${this.options.token}`) {
+        throw new HttpGatewayError(401, 'unauthorized')
+      }
+
+      const url = new URL(req.url || '/', 'http://localhost')
+
+      const pathRouteList = this.routeList.filter(r => r.path.test(url.pathname))
+      if (pathRouteList.length === 0) {
+        throw new HttpGatewayError(404, `${url.pathname} not found`)
+      }
+
+      const route = pathRouteList.find(r => r.method === req.method)
+      if (!route) {
+        throw new HttpGatewayError(405, `${req.method} ${url.pathname} not allowed`)
+      }
+      const paramList = route.path.exec(url.pathname)!.slice(1).map(decodeParam)
+
+      const body = req.method === 'POST'
+        ? await readBody(req)
+        : undefined
+
+      result = await route.handler(paramList, url.searchParams, body)
+
+    } catch (e) {
+      log.warn('HttpGateway', 'handle() %s %s exception: %s', req.method, req.url, e && e.message)
+      status = e instanceof HttpGatewayError ? e.status : 500
+      result = { error: (e && e.message) || String(e) }
+    }
+
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' })
+    res.end(JSON.stringify(result === undefined ? {} : result))
+  }
+
+  private async contactList (_: string[], query: URLSearchParams) {
+    const name  = query.get('name')
+    const alias = query.get('alias')
+
+    const contactList = name
+      ? await this.wechaty.Contact.findAll({ name })
+      : alias
+        ? await this.wechaty.Contact.findAll({ alias })
+        : await this.wechaty.Contact.findAll()
+    return contactList.map(contact => contact.toJSON())
+  }
+
+  private async contactMessage ([id]: string[], _: URLSearchParams, body: any) {
+    const contact = this.wechaty.Contact.load(id)
+    await ready(contact, 'contact')
+
+    const message = await contact.say(this.content(body) as any)
+    return message ? message.toJSON() : {}
+  }
+
+  private async roomList (_: string[], query: URLSearchParams) {
+    const topic = query.get('topic')
+
+    const roomList = topic
+      ? await this.wechaty.Room.findAll({ topic })
+      : await this.wechaty.Room.findAll()
+    return roomList.map(room => room.toJSON())
+  }
+
+  private async roomMessage ([id]: string[], _: URLSearchParams, body: any) {
+    const room = this.wechaty.Room.load(id)
+    await ready(room, 'room')
+
+    const mentionList = (body && Array.isArray(body.mentionIdList))
+      ? (body.mentionIdList as string[]).map(contactId => this.wechaty.Contact.load(contactId))
+      : []
+    await Promise.all(mentionList.map(contact => ready(contact, 'contact')))
+
+    const content = this.content(body)
+    const message = typeof content === 'string'
+      ? await room.say(content, ...mentionList)
+      : await room.say(content as any)
+    return message ? message.toJSON() : {}
+  }
+
+  private async roomMemberList ([id]: string[]) {
+    const room = this.wechaty.Room.load(id)
+    await ready(room, 'room')
+
+    const memberList = await room.memberAll()
+    return memberList.map(contact => contact.toJSON())
+  }
+
+  private async friendshipAdd (_: string[], __: URLSearchParams, body: any) {
+    if (!body || typeof body.contactId !== 'string') {
+      throw new HttpGatewayError(400, 'contactId is required')
+    }
+    const contact = this.wechaty.Contact.load(body.contactId)
+    await ready(contact, 'contact')
+
+    await this.wechaty.Friendship.add(contact, body.hello || '')
+    return {}
+  }
+
+  /**
+   * Build the thing for `say()` from the request body
+   */
+  private content (body: any): string | Contact | FileBox | UrlLink | MiniProgram {
+    if (!body || typeof body !== 'object') {
+      throw new HttpGatewayError(400, 'message body is required')
+    }
+
+    if (typeof body.text === 'string') {
+      return body.text
+    } else if (typeof body.contactId === 'string') {
+      return this.wechaty.Contact.load(body.contactId)
+    } else if (body.file && typeof body.file.name === 'string') {
+      if (typeof body.file.base64 === 'string') {
+        return FileBox.fromBase64(body.file.base64, body.file.name)
+      } else if (typeof body.file.url === 'string') {
+        if (!this.options.fileUrl) {
+          throw new HttpGatewayError(400, 'file url is not allowed')
+        }
+        return FileBox.fromUrl(body.file.url, body.file.name)
+      }
+    } else if (body.urlLink) {
+      return new UrlLink(body.urlLink)
+    } else if (body.miniProgram) {
+      return new MiniProgram(body.miniProgram)
+    }
+
+    throw new HttpGatewayError(400, 'unsupported message body')
+  }
+
+}
+
+async function ready (
+  target : Contact | Room,
+  name   : string,
+): Promise<void> {
+  try {
+    await target.ready()
+  } catch (e) {
+    throw new HttpGatewayError(404, `${name} ${target.id} not found`)
+  }
+}
+
+function decodeParam (param: string): string {
+  try {
+    return decodeURIComponent(param)
+  } catch (e) {
+    throw new HttpGatewayError(400, `invalid path parameter: ${param}`)
+  }
+}
+
+async function readBody (req: http.IncomingMessage): Promise<any> {
+  const chunkList: Buffer[] = []
+  let size = 0
+
+  for await (const chunk of req) {
+    size += chunk.length
+    if (size > MAX_BODY_SIZE) {
+      throw new HttpGatewayError(413, 'request body too large')
+    }
+    chunkList.push(chunk as Buffer)
+  }
+
+  const text = Buffer.concat(chunkList).toString('utf8')
+  if (!text) {
+    return undefined
+  }
+  try {
+    return JSON.parse(text)
+  } catch (e) {
+    throw new HttpGatewayError(400, 'invalid JSON body')
+  }
+}
@@ -18,10 +18,120 @@ export {
  * because we have circluar dependencies between `Puppet` & `Wechaty`
  */
 export {
+  TextSplitOptions,
   Wechaty,
   WechatyOptions,
 }                     from './wechaty'
 
+export {
+  BroadcastContent,
+  BroadcastOptions,
+  BroadcastQuery,
+  BroadcastReport,
+  BroadcastResult,
+}                     from './broadcast'
+export {
+  Command,
+  CommandContext,
+  CommandHandler,
+  CommandOptions,
+  CommandRouter,
+  CommandRouterOptions,
+}                     from './command-router'
+export {
+  MediaPolicyError,
+  NotSupportedError,
+  TimeoutError,
+}                     from './errors'
+export {
+  exportHistory,
+  HistoryEntry,
+  HistoryExportFormat,
+  HistoryExportOptions,
+  HistoryExportResult,
+}                     from './history-exporter'
+export {
+  HttpGateway,
+  HttpGatewayOptions,
+}                     from './http-gateway'
+export {
+  MediaCache,
+  MediaCacheEntry,
+  MediaCacheOptions,
+}                     from './media-cache'
+export {
+  JsonLinesMessageArchive,
+  matchArchiveRecord,
+  MemoryMessageArchive,
+  MessageArchiveQuery,
+  MessageArchiveRecord,
+  MessageArchiveStore,
+  paginateArchiveRecord,
+  SqliteMessageArchive,
+}                     from './message-archive'
+export {
+  MessageMiddleware,
+  MessageMiddlewareNext,
+}                     from './middleware'
+export {
+  WechatyPlugin,
+  WechatyPluginFunction,
+  WechatyPluginObject,
+  WechatyPluginUninstaller,
+}                     from './plugin'
+
+export {
+  RoomComposer,
+  RoomComposerOptions,
+}                     from './room-composer'
+export {
+  RoomPolicy,
+  RoomPolicyOptions,
+  RoomPolicyReason,
+  RoomPolicyRule,
+  RoomPolicyViolation,
+}                     from './room-policy'
+export {
+  RoomRoster,
+  RoomRosterEvent,
+  RoomRosterOptions,
+}                     from './room-roster'
+export {
+  RoomMemberStats,
+  RoomStats,
+  RoomStatsEvent,
+  RoomStatsOptions,
+  RoomStatsQuery,
+  RoomStatsReport,
+}                     from './room-stats'
+export {
+  ScheduleContent,
+  ScheduleJob,
+}                     from './scheduler'
+export {
+  SCHEMA_VERSION,
+}                     from './schema'
+export {
+  SendPriority,
+  SendQueue,
+  SendQueueOptions,
+  SendRateLimit,
+  SendTask,
+}                     from './send-queue'
+export {
+  Session,
+  SessionManagerOptions,
+}                     from './session'
+
+export {
+  Webhook,
+  WebhookDeadLetter,
+  WebhookDelivery,
+  WebhookEventName,
+  WebhookOptions,
+  webhookSignature,
+}                     from './webhook'
+
 export {
   PuppetModuleName,
 }                     from './puppet-config'
@@ -37,6 +147,16 @@ export {
   RoomInvitation,
   UrlLink,
   MiniProgram,
+  MessageContent,
+  MessageFileOptions,
+  MessageMention,
+  MessageMentionInfo,
+  MessageWaitOptions,
+  ContactJson,
+  FriendshipJson,
+  MessageJson,
+  RoomJson,
+  RoomUserQueryFilter,
 }                         from './user'
 
 export {
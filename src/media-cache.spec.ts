@@ -0,0 +1,175 @@
+#!/usr/bin/env ts-node
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+// tslint:disable:no-shadowed-variable
+import fs   from 'fs'
+import os   from 'os'
+import path from 'path'
+import {
+  Readable,
+}               from 'stream'
+
+import test  from 'blue-tape'
+import sinon from 'sinon'
+
+import { FileBox }    from 'file-box'
+import {
+  MessagePayload,
+  MessageType,
+}                     from 'wechaty-puppet'
+import { PuppetMock } from 'wechaty-puppet-mock'
+
+import { MediaPolicyError } from './errors'
+import { MediaCache }       from './media-cache'
+import { Wechaty }          from './wechaty'
+
+const imageBox = (name: string) => FileBox.fromBase64(Buffer.from('image').toString('base64'), name)
+
+test('MediaCache', async t => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wechaty-media-'))
+
+  try {
+    const cache = new MediaCache({ dir, maxSize: 10, typeList: ['.jpg', 'image/*'] })
+
+    const first  = await cache.put('m1', imageBox('first.jpg'))
+    const second = await cache.put('m2', imageBox('second.jpg'))
+    t.equal(first.name, 'first.jpg', 'should keep the name of the file')
+    t.equal(second.name, 'second.jpg', 'should keep the name of the file')
+    t.equal((await second.toBuffer()).toString(), 'image', 'should keep the content of the file')
+    t.equal(fs.readdirSync(dir).length, 2, 'should save the same content only once besides the index')
+
+    const reloaded = await new MediaCache({ dir }).get('m1')
+    t.equal(reloaded && reloaded.name, 'first.jpg', 'should load the index from the dir')
+
+    try {
+      await cache.put('m3', FileBox.fromBase64(Buffer.from('too large file').toString('base64'), 'large.jpg'))
+      t.fail('should reject')
+    } catch (e) {
+      t.true(e instanceof MediaPolicyError, 'should reject the file larger than maxSize')
+    }
+    try {
+      await cache.put('m4', imageBox('virus.exe'))
+      t.fail('should reject')
+    } catch (e) {
+      t.true(e instanceof MediaPolicyError, 'should reject the type not allowed')
+    }
+
+    await cache.remove('m1')
+    t.equal(await cache.get('m1'), null, 'should remove the message from the cache')
+    t.equal(fs.readdirSync(dir).length, 2, 'should keep the file shared by other messages')
+    await cache.remove('m2')
+    t.equal(fs.readdirSync(dir).length, 1, 'should delete the file not shared by any message')
+
+  } finally {
+    fs.rmdirSync(dir, { recursive: true })
+  }
+})
+
+test('MediaCache stop reading the file as soon as it exceeds the max size', async t => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wechaty-media-'))
+
+  try {
+    const cache = new MediaCache({ dir, maxSize: 10 })
+
+    let readCount = 0
+    const stream = new Readable({
+      read () {
+        this.push(++readCount <= 1000 ? Buffer.alloc(4) : null)
+      },
+    })
+
+    try {
+      await cache.put('m1', FileBox.fromStream(stream, 'large.jpg'))
+      t.fail('should reject')
+    } catch (e) {
+      t.true(e instanceof MediaPolicyError, 'should reject the file larger than maxSize')
+    }
+    t.true(readCount < 1000, 'should not read the whole file')
+  } finally {
+    fs.rmdirSync(dir, { recursive: true })
+  }
+})
+
+test('MediaCache start from an empty index when the index is broken', async t => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wechaty-media-'))
+
+  try {
+    fs.writeFileSync(path.join(dir, 'index.json'), '{ broken')
+    fs.writeFileSync(path.join(dir, 'a'.repeat(64)), 'orphan')
+
+    const cache = new MediaCache({ dir })
+    t.equal(await cache.get('m1'), null, 'should get nothing from the broken index')
+    t.deepEqual(fs.readdirSync(dir), ['index.json'], 'should remove the files which can not be found without the index')
+
+    await cache.put('m1', imageBox('first.jpg'))
+    t.ok(await cache.get('m1'), 'should put the file after the index is broken')
+    t.ok(JSON.parse(fs.readFileSync(path.join(dir, 'index.json'), 'utf8')).m1, 'should overwrite the broken index')
+  } finally {
+    fs.rmdirSync(dir, { recursive: true })
+  }
+})
+
+test('message.toFileBox({ cache: true })', async t => {
+  const sandbox = sinon.createSandbox()
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wechaty-media-'))
+
+  const puppet  = new PuppetMock()
+  const wechaty = new Wechaty({
+    mediaCache: new MediaCache({ dir, typeList: ['.jpg'] }),
+    puppet,
+  })
+  await wechaty.start()
+
+  sandbox.stub(puppet, 'messagePayload').resolves({
+    fromId    : 'c1',
+    id        : 'm1',
+    text      : '',
+    timestamp : 100,
+    type      : MessageType.Image,
+  } as MessagePayload)
+  const messageFile = sandbox.stub(puppet, 'messageFile').callsFake(async () => imageBox('cat.jpg'))
+
+  try {
+    const message = wechaty.Message.load('m1')
+    await message.ready()
+
+    const [fileBox] = await Promise.all([
+      message.toFileBox({ cache: true }),
+      message.toFileBox({ cache: true }),
+    ])
+    await message.toFileBox({ cache: true })
+    t.equal(messageFile.callCount, 1, 'should download from the puppet only once')
+    t.equal(fileBox.name, 'cat.jpg', 'should get the cached file')
+
+    await message.toFileBox()
+    t.equal(messageFile.callCount, 2, 'should download from the puppet without the cache option')
+
+    messageFile.callsFake(async () => imageBox('virus.exe'))
+    const policyMessage = wechaty.Message.load('m2')
+    await policyMessage.ready()
+    const uncached = await policyMessage.toFileBox({ cache: true })
+    t.equal(uncached.name, 'virus.exe', 'should get the file which violated the policy')
+    t.equal(await wechaty.mediaCache!.get('m2'), null, 'should not cache the file which violated the policy')
+
+  } finally {
+    await wechaty.stop()
+    sandbox.restore()
+    fs.rmdirSync(dir, { recursive: true })
+  }
+})
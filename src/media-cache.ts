@@ -0,0 +1,334 @@
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+import crypto from 'crypto'
+import fs     from 'fs'
+import path   from 'path'
+
+import {
+  FileBox,
+  FileBoxType,
+}                 from 'file-box'
+
+import {
+  log,
+}                 from './config'
+import {
+  MediaPolicyError,
+}                 from './errors'
+
+export interface MediaCacheOptions {
+  /**
+   * The directory to save the media files and the index
+   */
+  dir        : string,
+  /**
+   * Max size of one file in bytes. Default: no limit
+   */
+  maxSize?   : number,
+  /**
+   * The allowed types: extensions like `.jpg`, or MIME types like `image/*`.
+   * MIME types can only be matched when the puppet provides the `mimeType` of the file.
+   * Default: all types are allowed
+   */
+  typeList?  : string[],
+}
+
+export interface MediaCacheEntry {
+  /**
+   * The sha256 of the content, the messages which have the same content share one file
+   */
+  hash      : string,
+  name      : string,
+  size      : number,
+  mimeType? : string,
+}
+
+type MediaCacheIndex = { [messageId: string]: MediaCacheEntry }
+
+const INDEX_FILE_NAME = 'index.json'
+
+/**
+ * The media files are named by the sha256 of their contents
+ */
+const MEDIA_FILE_NAME_REGEX = /^[0-9a-f]{64}$/
+
+/**
+ * Save the media files of the messages to the disk, so they will not be downloaded from the puppet again.
+ *
+ * @example
+ * const bot = new Wechaty({
+ *   mediaCache: new MediaCache({
+ *     dir      : '/var/cache/wechaty',
+ *     maxSize  : 10 * 1024 * 1024,
+ *     typeList : ['image/*', '.pdf'],
+ *   }),
+ * })
+ * bot.on('message', async message => {
+ *   const fileBox = await message.toFileBox({ cache: true })
+ * })
+ */
+export class MediaCache {
+
+  private index?  : Promise<MediaCacheIndex>
+  private saving  : Promise<void>
+
+  private readonly pendingDict: { [messageId: string]: Promise<FileBox> }
+
+  constructor (
+    private readonly options: MediaCacheOptions,
+  ) {
+    log.verbose('MediaCache', 'constructor(%s)', JSON.stringify(options))
+
+    this.saving      = Promise.resolve()
+    this.pendingDict = {}
+  }
+
+  /**
+   * Get the cached file of the message.
+   *
+   * @returns {Promise<null | FileBox>} - null if the file had not been cached
+   */
+  public async get (messageId: string): Promise<null | FileBox> {
+    log.silly('MediaCache', 'get(%s)', messageId)
+
+    const entry = (await this.loadIndex())[messageId]
+    if (!entry) {
+      return null
+    }
+
+    const file = this.file(entry)
+    if (!fs.existsSync(file)) {
+      log.warn('MediaCache', 'get(%s) file %s had been removed', messageId, file)
+      await this.remove(messageId)
+      return null
+    }
+
+    const fileBox = FileBox.fromFile(file, entry.name)
+    if (entry.mimeType) {
+      fileBox.mimeType = entry.mimeType
+    }
+    return fileBox
+  }
+
+  /**
+   * Get the cached file of the message, or download it by `load()` and put it to the cache.
+   * The file which violates the size or type policy will be returned without being cached.
+   *
+   * The concurrent calls for the same message will share one download.
+   */
+  public async fetch (
+    messageId : string,
+    load      : () => Promise<FileBox>,
+  ): Promise<FileBox> {
+    log.verbose('MediaCache', 'fetch(%s)', messageId)
+
+    const cached = await this.get(messageId)
+    if (cached) {
+      return cached
+    }
+
+    if (!(messageId in this.pendingDict)) {
+      this.pendingDict[messageId] = (async () => {
+        try {
+          const fileBox = await load()
+          try {
+            return await this.put(messageId, fileBox)
+          } catch (e) {
+            if (!(e instanceof MediaPolicyError)) {
+              throw e
+            }
+            log.verbose('MediaCache', 'fetch(%s) not cached: %s', messageId, e.message)
+            // the stream could have been consumed by the size check
+            return fileBox.boxType === FileBoxType.Stream
+              ? load()
+              : fileBox
+          }
+        } finally {
+          delete this.pendingDict[messageId]
+        }
+      })()
+    }
+    return this.pendingDict[messageId]
+  }
+
+  /**
+   * Save the file of the message to the cache.
+   *
+   * @returns {Promise<FileBox>} - the cached file
+   * @throws {MediaPolicyError} - if the file is too large, or the type is not allowed
+   */
+  public async put (
+    messageId : string,
+    fileBox   : FileBox,
+  ): Promise<FileBox> {
+    log.verbose('MediaCache', 'put(%s, %s)', messageId, fileBox.name)
+
+    this.checkType(fileBox)
+
+    const buffer = await this.toBuffer(fileBox)
+
+    const entry: MediaCacheEntry = {
+      hash     : crypto.createHash('sha256').update(buffer).digest('hex'),
+      mimeType : fileBox.mimeType,
+      name     : fileBox.name,
+      size     : buffer.length,
+    }
+
+    const file = this.file(entry)
+    if (!fs.existsSync(file)) {
+      await fs.promises.mkdir(this.options.dir, { recursive: true })
+      await fs.promises.writeFile(file, buffer)
+    }
+
+    const index = await this.loadIndex()
+    index[messageId] = entry
+    await this.saveIndex()
+
+    return (await this.get(messageId))!
+  }
+
+  /**
+   * Remove the message from the cache.
+   * The file will be deleted if it is not shared by other messages.
+   */
+  public async remove (messageId: string): Promise<void> {
+    log.verbose('MediaCache', 'remove(%s)', messageId)
+
+    const index = await this.loadIndex()
+    const entry = index[messageId]
+    if (!entry) {
+      return
+    }
+    delete index[messageId]
+    await this.saveIndex()
+
+    const shared = Object.keys(index).some(id => index[id].hash === entry.hash)
+    const file   = this.file(entry)
+    if (!shared && fs.existsSync(file)) {
+      await fs.promises.unlink(file)
+    }
+  }
+
+  private checkType (fileBox: FileBox): void {
+    const typeList = this.options.typeList
+    if (!typeList || typeList.length === 0) {
+      return
+    }
+
+    const ext      = path.extname(fileBox.name).toLowerCase()
+    const mimeType = fileBox.mimeType
+
+    const allowed = typeList.some(type => {
+      if (type.startsWith('.')) {
+        return type.toLowerCase() === ext
+      }
+      if (!mimeType) {
+        return false
+      }
+      return type.endsWith('/*')
+        ? mimeType.startsWith(type.slice(0, -1))
+        : mimeType === type
+    })
+
+    if (!allowed) {
+      throw new MediaPolicyError(`type ${mimeType || ext} is not allowed`, fileBox.name)
+    }
+  }
+
+  /**
+   * Read the content of the file, and stop reading as soon as it exceeds the `maxSize`.
+   */
+  private async toBuffer (fileBox: FileBox): Promise<Buffer> {
+    const maxSize = this.options.maxSize
+    if (!maxSize) {
+      return fileBox.toBuffer()
+    }
+
+    const tooLarge = () => new MediaPolicyError(`size exceeds the max size ${maxSize}`, fileBox.name)
+
+    // the size is only known when it had been set by the puppet
+    if (fileBox.size > maxSize) {
+      throw tooLarge()
+    }
+
+    const chunkList: Buffer[] = []
+    let size = 0
+
+    for await (const chunk of await fileBox.toStream()) {
+      size += chunk.length
+      if (size > maxSize) {
+        throw tooLarge()
+      }
+      chunkList.push(Buffer.from(chunk))
+    }
+    return Buffer.concat(chunkList)
+  }
+
+  private file (entry: MediaCacheEntry): string {
+    return path.join(this.options.dir, entry.hash)
+  }
+
+  private async loadIndex (): Promise<MediaCacheIndex> {
+    if (!this.index) {
+      const file = path.join(this.options.dir, INDEX_FILE_NAME)
+      this.index = fs.existsSync(file)
+        ? fs.promises.readFile(file, 'utf8')
+          .then(text => JSON.parse(text))
+          .catch(async e => {
+            // the cached files will be downloaded again, and the index will be overwritten by the next `put()`
+            log.error('MediaCache', 'loadIndex() %s is broken, start from an empty index: %s', file, e && e.message)
+            await this.removeOrphans()
+            return {}
+          })
+        : Promise.resolve({})
+    }
+    return this.index
+  }
+
+  /**
+   * Remove all the media files in the dir, which can not be found without the index.
+   */
+  private async removeOrphans (): Promise<void> {
+    const nameList = await fs.promises.readdir(this.options.dir)
+    for (const name of nameList.filter(name => MEDIA_FILE_NAME_REGEX.test(name))) {
+      try {
+        await fs.promises.unlink(path.join(this.options.dir, name))
+      } catch (e) {
+        log.warn('MediaCache', 'removeOrphans() unlink(%s) rejection: %s', name, e && e.message)
+      }
+    }
+  }
+
+  /**
+   * Write the index one by one, for not corrupting the file by the concurrent writes
+   */
+  private async saveIndex (): Promise<void> {
+    const file  = path.join(this.options.dir, INDEX_FILE_NAME)
+    const index = await this.loadIndex()
+
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.promises.mkdir(this.options.dir, { recursive: true })
+        return fs.promises.writeFile(file, JSON.stringify(index))
+      })
+    return this.saving
+  }
+
+}
@@ -0,0 +1,186 @@
+#!/usr/bin/env ts-node
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+// tslint:disable:no-shadowed-variable
+import fs   from 'fs'
+import os   from 'os'
+import path from 'path'
+
+import test  from 'blue-tape'
+import sinon from 'sinon'
+
+import {
+  ContactPayload,
+  MessagePayload,
+  MessageType,
+}                     from 'wechaty-puppet'
+import { PuppetMock } from 'wechaty-puppet-mock'
+
+import {
+  JsonLinesMessageArchive,
+  MemoryMessageArchive,
+  MessageArchiveRecord,
+  MessageArchiveStore,
+  SqliteMessageArchive,
+}                     from './message-archive'
+import { Wechaty }    from './wechaty'
+
+function record (
+  id        : string,
+  text      : string,
+  timestamp : number,
+  roomId?   : string,
+): MessageArchiveRecord {
+  return {
+    fromId  : 'contact1',
+    id,
+    message : { id, schema: 'Message', version: 1 },
+    roomId,
+    text,
+    timestamp,
+    type    : MessageType.Text,
+  }
+}
+
+async function testStore (t: test.Test, store: MessageArchiveStore) {
+  await store.add(record('3', 'Wechaty is released', 3000, 'room1'))
+  await store.add(record('1', 'hello world', 1000))
+  await store.add(record('2', 'Hello Wechaty', 2000, 'room1'))
+  await store.add(record('1', 'hello world!', 1000))
+
+  const all = await store.search({})
+  t.deepEqual(all.map(r => r.id), ['1', '2', '3'], 'should sort by timestamp and dedupe by id')
+  t.equal(all[0].text, 'hello world!', 'should keep the latest record of the same id')
+
+  const searched = await store.search({ search: 'WECHATY  hello' })
+  t.deepEqual(searched.map(r => r.id), ['2'], 'should match all the words case insensitive')
+
+  const ranged = await store.search({ since: new Date(2000), until: new Date(3000) })
+  t.deepEqual(ranged.map(r => r.id), ['2', '3'], 'should filter by the date range')
+
+  const paged = await store.search({ limit: 1, offset: 1, roomId: 'room1' })
+  t.deepEqual(paged.map(r => r.id), ['3'], 'should paginate after filtering')
+}
+
+test('MemoryMessageArchive', async t => {
+  await testStore(t, new MemoryMessageArchive())
+})
+
+test('JsonLinesMessageArchive', async t => {
+  const file = path.join(os.tmpdir(), `wechaty-message-archive-${process.pid}.jsonl`)
+  try {
+    const store = new JsonLinesMessageArchive(file)
+    t.deepEqual(await store.search({}), [], 'should get nothing before the file exists')
+    await testStore(t, store)
+  } finally {
+    if (fs.existsSync(file)) {
+      fs.unlinkSync(file)
+    }
+  }
+})
+
+test('SqliteMessageArchive', async t => {
+  try {
+    require.resolve('better-sqlite3')
+  } catch (e) {
+    t.skip('the optional peer dependency better-sqlite3 is not installed')
+    return
+  }
+
+  const file = path.join(os.tmpdir(), `wechaty-message-archive-${process.pid}.sqlite`)
+  const store = new SqliteMessageArchive(file)
+  try {
+    await testStore(t, store)
+
+    await store.add(record('4', '100% off_sale', 4000))
+    t.deepEqual((await store.search({ search: '1%f' })).map(r => r.id), [], 'should not search % as the wildcard')
+    t.deepEqual((await store.search({ search: 'o_f' })).map(r => r.id), [], 'should not search _ as the wildcard')
+    t.deepEqual((await store.search({ search: '100% f_s' })).map(r => r.id), ['4'], 'should search % and _ as the plain text')
+
+    const matched = await store.search({ limit: 1, text: /^hello/i })
+    t.deepEqual(matched.map(r => r.id), ['1'], 'should match the text by RegExp, then paginate')
+
+    await store.close()
+    const reopened = await new SqliteMessageArchive(file).search({ roomId: 'room1' })
+    t.deepEqual(reopened.map(r => r.id), ['2', '3'], 'should persist the records in the file')
+  } finally {
+    await store.close()
+    if (fs.existsSync(file)) {
+      fs.unlinkSync(file)
+    }
+  }
+})
+
+test('archive the messages for Message.findAll()', async t => {
+  const sandbox = sinon.createSandbox()
+
+  const messageArchive = new MemoryMessageArchive()
+  const puppet  = new PuppetMock()
+  const wechaty = new Wechaty({ messageArchive, puppet })
+
+  await wechaty.start()
+
+  sandbox.stub(puppet, 'contactPayload').callsFake(async (id: string) => ({ id, name: id } as ContactPayload))
+  sandbox.stub(puppet, 'messagePayload').callsFake(async (id: string) => ({
+    fromId    : 'contact1',
+    id,
+    text      : `text of ${id}`,
+    timestamp : Number(id),
+    toId      : 'bot',
+    type      : MessageType.Text,
+  } as MessagePayload))
+  sandbox.stub(puppet, 'messageSendText').resolves('300' as any)
+
+  const future = new Promise(resolve => wechaty.on('message', resolve))
+  puppet.emit('message', '100')
+  await future
+
+  await wechaty.Contact.load('contact1').say('reply')
+
+  const messageList = await wechaty.Message.findAll({
+    search : 'TEXT OF',
+    since  : new Date(50 * 1000),
+  })
+  t.deepEqual(messageList.map(m => m.id), ['100', '300'], 'should find the incoming and outgoing messages')
+  t.equal(messageList[1].text(), 'text of 300', 'should rehydrate the message from the archive')
+
+  const pagedList = await wechaty.Message.findAll({ limit: 1, offset: 1 })
+  t.deepEqual(pagedList.map(m => m.id), ['300'], 'should paginate the messages')
+
+  await wechaty.stop()
+  sandbox.restore()
+})
+
+test('Message.findAll() reject when the archive is broken', async t => {
+  const messageArchive: MessageArchiveStore = {
+    add    : async () => undefined,
+    search : async () => { throw new Error('broken') },
+  }
+  const wechaty = new Wechaty({ messageArchive, puppet: new PuppetMock() })
+  await wechaty.start()
+
+  try {
+    await wechaty.Message.findAll({ search: 'hello' })
+    t.fail('should reject')
+  } catch (e) {
+    t.equal(e.message, 'broken', 'should reject with the error of the archive')
+  }
+
+  await wechaty.stop()
+})
@@ -0,0 +1,427 @@
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+import fs       from 'fs'
+import readline from 'readline'
+
+import {
+  MessageType,
+}                 from 'wechaty-puppet'
+
+import {
+  log,
+}                 from './config'
+import {
+  Message,
+  MessageJson,
+}                 from './user'
+
+/**
+ * One archived message, with the fields for searching
+ */
+export interface MessageArchiveRecord {
+  id        : string,
+  type      : MessageType,
+  text      : string,
+  fromId?   : string,
+  toId?     : string,
+  roomId?   : string,
+  /**
+   * Milliseconds since epoch
+   */
+  timestamp : number,
+  message   : MessageJson,
+}
+
+export interface MessageArchiveQuery {
+  fromId? : string,
+  toId?   : string,
+  roomId? : string,
+  type?   : MessageType,
+  /**
+   * Exactly equal to the string, or matched the RegExp
+   */
+  text?   : string | RegExp,
+  since?  : Date,
+  until?  : Date,
+  /**
+   * Full-text search: the text contains all the words, case insensitive.
+   */
+  search? : string,
+  offset? : number,
+  limit?  : number,
+}
+
+/**
+ * The backend of the message archive.
+ *
+ * Implement this interface to store the messages to other databases.
+ * `matchArchiveRecord()` and `paginateArchiveRecord()` can help to implement the `search()`.
+ */
+export interface MessageArchiveStore {
+  /**
+   * Add the record, or replace the record which has the same id.
+   */
+  add (record: MessageArchiveRecord): Promise<void>
+  /**
+   * Search the records, sorted by the timestamp ascending.
+   */
+  search (query: MessageArchiveQuery): Promise<MessageArchiveRecord[]>
+}
+
+export function toArchiveRecord (message: Message): MessageArchiveRecord {
+  const from = message.from()
+  const to   = message.to()
+  const room = message.room()
+
+  return {
+    fromId    : from ? from.id : undefined,
+    id        : message.id,
+    message   : message.toJSON(),
+    roomId    : room ? room.id : undefined,
+    text      : message.text(),
+    timestamp : message.date().getTime(),
+    toId      : to ? to.id : undefined,
+    type      : message.type(),
+  }
+}
+
+export function matchArchiveRecord (
+  record : MessageArchiveRecord,
+  query  : MessageArchiveQuery,
+): boolean {
+  if (query.fromId && record.fromId !== query.fromId) {
+    return false
+  }
+  if (query.toId && record.toId !== query.toId) {
+    return false
+  }
+  if (query.roomId && record.roomId !== query.roomId) {
+    return false
+  }
+  if (query.type !== undefined && record.type !== query.type) {
+    return false
+  }
+  if (query.text !== undefined) {
+    const matched = typeof query.text === 'string'
+      ? record.text === query.text
+      : query.text.test(record.text)
+    if (!matched) {
+      return false
+    }
+  }
+  if (query.since && record.timestamp < query.since.getTime()) {
+    return false
+  }
+  if (query.until && record.timestamp > query.until.getTime()) {
+    return false
+  }
+  if (query.search) {
+    const text = record.text.toLowerCase()
+    const wordList = query.search.toLowerCase().split(/\s+/).filter(word => !!word)
+    if (!wordList.every(word => text.includes(word))) {
+      return false
+    }
+  }
+  return true
+}
+
+/**
+ * Sort the records by timestamp ascending, then apply the `offset` & `limit` of the query.
+ */
+export function paginateArchiveRecord<T extends { timestamp: number }> (
+  recordList : T[],
+  query      : MessageArchiveQuery,
+): T[] {
+  const offset = query.offset || 0
+  const end    = query.limit === undefined
+    ? undefined
+    : offset + query.limit
+
+  return [...recordList]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(offset, end)
+}
+
+/**
+ * Keep all the messages in memory, for testing or the short living bots.
+ */
+export class MemoryMessageArchive implements MessageArchiveStore {
+
+  private readonly recordMap: Map<string, MessageArchiveRecord>
+
+  constructor () {
+    log.verbose('MemoryMessageArchive', 'constructor()')
+    this.recordMap = new Map()
+  }
+
+  public async add (record: MessageArchiveRecord): Promise<void> {
+    this.recordMap.set(record.id, record)
+  }
+
+  public async search (query: MessageArchiveQuery): Promise<MessageArchiveRecord[]> {
+    log.verbose('MemoryMessageArchive', 'search(%s)', JSON.stringify(query))
+
+    const recordList = [...this.recordMap.values()]
+      .filter(record => matchArchiveRecord(record, query))
+    return paginateArchiveRecord(recordList, query)
+  }
+
+}
+
+/**
+ * Append the messages to a file, one JSON per line.
+ *
+ * Every search will scan the whole file, the later line will replace the former one with the same id.
+ */
+export class JsonLinesMessageArchive implements MessageArchiveStore {
+
+  constructor (
+    public readonly file: string,
+  ) {
+    log.verbose('JsonLinesMessageArchive', 'constructor(%s)', file)
+  }
+
+  public async add (record: MessageArchiveRecord): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      fs.appendFile(this.file, JSON.stringify(record) + '\n', e => e ? reject(e) : resolve())
+    })
+  }
+
+  public async search (query: MessageArchiveQuery): Promise<MessageArchiveRecord[]> {
+    log.verbose('JsonLinesMessageArchive', 'search(%s)', JSON.stringify(query))
+
+    if (!fs.existsSync(this.file)) {
+      return []
+    }
+
+    const matchedMap = new Map<string, MessageArchiveRecord>()
+
+    const lineReader = readline.createInterface({
+      crlfDelay : Infinity,
+      input     : fs.createReadStream(this.file),
+    })
+
+    for await (const line of lineReader) {
+      if (!line.trim()) {
+        continue
+      }
+
+      let record: MessageArchiveRecord
+      try {
+        record = JSON.parse(line)
+      } catch (e) {
+        log.warn('JsonLinesMessageArchive', 'search() skip the broken line: %s', line)
+        continue
+      }
+
+      if (matchArchiveRecord(record, query)) {
+        matchedMap.set(record.id, record)
+      } else {
+        matchedMap.delete(record.id)
+      }
+    }
+
+    return paginateArchiveRecord([...matchedMap.values()], query)
+  }
+
+}
+
+/**
+ * The part of the `better-sqlite3` API used by the `SqliteMessageArchive`
+ */
+interface SqliteStatement {
+  run (...paramList: any[]): unknown
+  all (...paramList: any[]): any[]
+}
+
+interface SqliteDatabase {
+  prepare (sql: string): SqliteStatement
+  exec (sql: string): unknown
+  close (): unknown
+}
+
+type SqliteDatabaseConstructor = new (file: string) => SqliteDatabase
+
+/**
+ * Loaded by `import()` only when the `SqliteMessageArchive` is used,
+ * so the optional peer dependency is not required by the others.
+ */
+const SQLITE_MODULE_NAME = 'better-sqlite3'
+
+/**
+ * Save the messages to a SQLite database file.
+ *
+ * It requires the optional peer dependency `better-sqlite3`: `npm install better-sqlite3`
+ *
+ * The full-text `search` is case insensitive for the ASCII letters only.
+ */
+export class SqliteMessageArchive implements MessageArchiveStore {
+
+  private db?: Promise<SqliteDatabase>
+
+  constructor (
+    public readonly file: string,
+  ) {
+    log.verbose('SqliteMessageArchive', 'constructor(%s)', file)
+  }
+
+  public async add (record: MessageArchiveRecord): Promise<void> {
+    const db = await this.database()
+    db.prepare([
+      'INSERT OR REPLACE INTO message (id, type, text, fromId, toId, roomId, timestamp, message)',
+      'VALUES (@id, @type, @text, @fromId, @toId, @roomId, @timestamp, @message)',
+    ].join(' ')).run({
+      fromId    : record.fromId || null,
+      id        : record.id,
+      message   : JSON.stringify(record.message),
+      roomId    : record.roomId || null,
+      text      : record.text,
+      timestamp : record.timestamp,
+      toId      : record.toId || null,
+      type      : record.type,
+    })
+  }
+
+  public async search (query: MessageArchiveQuery): Promise<MessageArchiveRecord[]> {
+    log.verbose('SqliteMessageArchive', 'search(%s)', JSON.stringify(query))
+
+    const db = await this.database()
+
+    const whereList : string[] = []
+    const paramList : Array<string | number> = []
+
+    const equal = (column: string, value?: string | number) => {
+      if (value !== undefined && value !== '') {
+        whereList.push(`${column} = ?`)
+        paramList.push(value)
+      }
+    }
+    equal('fromId', query.fromId)
+    equal('toId',   query.toId)
+    equal('roomId', query.roomId)
+    equal('type',   query.type)
+    if (typeof query.text === 'string') {
+      equal('text', query.text)
+    }
+
+    if (query.since) {
+      whereList.push('timestamp >= ?')
+      paramList.push(query.since.getTime())
+    }
+    if (query.until) {
+      whereList.push('timestamp <= ?')
+      paramList.push(query.until.getTime())
+    }
+
+    if (query.search) {
+      const wordList = query.search.split(/\s+/).filter(word => !!word)
+      for (const word of wordList) {
+        whereList.push("text LIKE ? ESCAPE '\\'")
+        paramList.push('%' + word.replace(/[\\%_]/g, '\\$&') + '%')
+      }
+    }
+
+    /**
+     * The RegExp can not be matched by SQL, so filter and paginate the rows after selecting them.
+     */
+    const regexp = query.text instanceof RegExp
+
+    let sql = 'SELECT * FROM message'
+    if (whereList.length) {
+      sql += ' WHERE ' + whereList.join(' AND ')
+    }
+    sql += ' ORDER BY timestamp, rowid'
+    if (!regexp) {
+      // LIMIT -1: no limit
+      sql += ' LIMIT ? OFFSET ?'
+      paramList.push(
+        query.limit === undefined ? -1 : query.limit,
+        query.offset || 0,
+      )
+    }
+
+    const recordList: MessageArchiveRecord[] = db.prepare(sql).all(...paramList).map((row: any) => ({
+      fromId    : row.fromId || undefined,
+      id        : row.id,
+      message   : JSON.parse(row.message),
+      roomId    : row.roomId || undefined,
+      text      : row.text,
+      timestamp : row.timestamp,
+      toId      : row.toId || undefined,
+      type      : row.type,
+    }))
+
+    return regexp
+      ? paginateArchiveRecord(recordList.filter(record => matchArchiveRecord(record, query)), query)
+      : recordList
+  }
+
+  /**
+   * Close the database file. It will be opened again by the next `add()` or `search()`.
+   */
+  public async close (): Promise<void> {
+    log.verbose('SqliteMessageArchive', 'close()')
+
+    if (this.db) {
+      const db = await this.db
+      this.db = undefined
+      db.close()
+    }
+  }
+
+  private async database (): Promise<SqliteDatabase> {
+    if (!this.db) {
+      this.db = this.open()
+      this.db.catch(() => { this.db = undefined })
+    }
+    return this.db
+  }
+
+  private async open (): Promise<SqliteDatabase> {
+    log.verbose('SqliteMessageArchive', 'open()')
+
+    let Database: SqliteDatabaseConstructor
+    try {
+      const sqliteModule = await import(SQLITE_MODULE_NAME)
+      Database = sqliteModule.default || sqliteModule
+    } catch (e) {
+      log.error('SqliteMessageArchive', 'open() can not load better-sqlite3: %s', e && e.message)
+      throw new Error('SqliteMessageArchive requires the "better-sqlite3" module, please install it by: npm install better-sqlite3')
+    }
+
+    const db = new Database(this.file)
+    db.exec([
+      'CREATE TABLE IF NOT EXISTS message (',
+      '  id        TEXT PRIMARY KEY,',
+      '  type      INTEGER NOT NULL,',
+      '  text      TEXT NOT NULL,',
+      '  fromId    TEXT,',
+      '  toId      TEXT,',
+      '  roomId    TEXT,',
+      '  timestamp INTEGER NOT NULL,',
+      '  message   TEXT NOT NULL',
+      ');',
+      'CREATE INDEX IF NOT EXISTS message_timestamp ON message (timestamp);',
+      'CREATE INDEX IF NOT EXISTS message_room ON message (roomId, timestamp);',
+      'CREATE INDEX IF NOT EXISTS message_from ON message (fromId, timestamp);',
+    ].join('\n'))
+    return db
+  }
+
+}
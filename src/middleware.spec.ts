@@ -0,0 +1,160 @@
+#!/usr/bin/env ts-node
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+// tslint:disable:no-shadowed-variable
+import test  from 'blue-tape'
+import sinon from 'sinon'
+
+import {
+  MessagePayload,
+  MessageType,
+}                     from 'wechaty-puppet'
+import { PuppetMock } from 'wechaty-puppet-mock'
+
+import { composeMiddleware }  from './middleware'
+import { Wechaty }            from './wechaty'
+
+test('composeMiddleware()', async t => {
+  const message = {} as any
+  const orderList: string[] = []
+
+  const middleware = composeMiddleware([
+    async (_, next) => {
+      orderList.push('a1')
+      await next()
+      orderList.push('a2')
+    },
+    async (_, next) => {
+      orderList.push('b1')
+      await next()
+      orderList.push('b2')
+    },
+  ])
+
+  await middleware(message, () => { orderList.push('final') })
+  t.deepEqual(orderList, ['a1', 'b1', 'final', 'b2', 'a2'], 'should call middlewares in onion order')
+
+  const finalSpy = sinon.spy()
+  await composeMiddleware([() => undefined])(message, finalSpy)
+  t.true(finalSpy.notCalled, 'should not call final when next() is not called')
+
+  try {
+    await composeMiddleware([
+      async (_, next) => { await next(); await next() },
+    ])(message, () => undefined)
+    t.fail('should throw')
+  } catch (e) {
+    t.pass('should throw when next() called multiple times')
+  }
+})
+
+test('middleware() filter messages before listeners', async t => {
+  const puppet  = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+
+  const sandbox = sinon.createSandbox()
+  sandbox.stub(puppet, 'messagePayload').callsFake(async id => {
+    return {
+      id,
+      text      : id,
+      timestamp : Date.now(),
+      type      : MessageType.Text,
+    } as MessagePayload
+  })
+
+  await wechaty.start()
+
+  const messageSpy = sinon.spy()
+  wechaty.on('message', messageSpy)
+
+  wechaty.middleware(async (message, next) => {
+    if (message.text() === 'drop') {
+      return
+    }
+    await next()
+  })
+
+  puppet.emit('message', 'drop')
+  puppet.emit('message', 'pass')
+  await new Promise(resolve => setTimeout(resolve, 10))
+
+  t.true(messageSpy.calledOnce, 'should only emit one message')
+  t.equal(messageSpy.firstCall.args[0].text(), 'pass', 'should emit the message which passed the middleware')
+
+  await wechaty.stop()
+  sandbox.restore()
+})
+
+test('middleware() report the exceptions to the plugin', async t => {
+  const puppet  = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+
+  const sandbox = sinon.createSandbox()
+  sandbox.stub(puppet, 'messagePayload').callsFake(async id => {
+    return {
+      id,
+      text      : id,
+      timestamp : Date.now(),
+      type      : MessageType.Text,
+    } as MessagePayload
+  })
+
+  const EXPECTED_ERROR = new Error('middleware error')
+
+  const errorSpy   = sinon.spy()
+  const onErrorSpy = sinon.spy()
+  wechaty.on('error', errorSpy)
+
+  wechaty.use({
+    install: bot => {
+      bot.middleware(async (message, next) => {
+        if (message.text() === 'throw') {
+          throw EXPECTED_ERROR
+        }
+        await next()
+      })
+    },
+    name    : 'thrower',
+    onError : onErrorSpy,
+  })
+  await wechaty.start()
+
+  wechaty.middleware(async (message, next) => {
+    if (message.text() === 'downstream') {
+      throw new Error('downstream error')
+    }
+    await next()
+  })
+
+  puppet.emit('message', 'throw')
+  await new Promise(resolve => setTimeout(resolve, 10))
+
+  t.true(onErrorSpy.calledOnce, 'should report the exception to the plugin')
+  t.equal(onErrorSpy.firstCall.args[0], EXPECTED_ERROR, 'should get the error thrown by the middleware')
+  t.true(errorSpy.notCalled, 'should not emit error event on wechaty')
+
+  puppet.emit('message', 'downstream')
+  await new Promise(resolve => setTimeout(resolve, 10))
+
+  t.true(onErrorSpy.calledOnce, 'should not report the exceptions of the downstream to the plugin')
+  t.true(errorSpy.calledOnce, 'should emit the exceptions of the downstream on wechaty')
+
+  await wechaty.stop()
+  sandbox.restore()
+})
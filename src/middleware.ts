@@ -0,0 +1,65 @@
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+import {
+  Message,
+}             from './user'
+
+export type MessageMiddlewareNext = () => Promise<void>
+
+/**
+ * Koa style middleware for messages:
+ *  call `await next()` to pass the message to the next middleware (and finally the `message` listeners),
+ *  or return without calling `next()` to drop the message.
+ */
+export type MessageMiddleware = (
+  message : Message,
+  next    : MessageMiddlewareNext,
+) => void | Promise<void>
+
+/**
+ * Compose the middleware list to one function,
+ * which will call `final()` after all the middlewares had called `next()`.
+ */
+export function composeMiddleware (
+  middlewareList: MessageMiddleware[],
+) {
+  return function composedMiddleware (
+    message : Message,
+    final   : () => void | Promise<void>,
+  ): Promise<void> {
+    let lastIndex = -1
+
+    async function dispatch (index: number): Promise<void> {
+      if (index <= lastIndex) {
+        throw new Error('next() called multiple times')
+      }
+      lastIndex = index
+
+      if (index === middlewareList.length) {
+        await final()
+        return
+      }
+
+      const middleware = middlewareList[index]
+      await middleware(message, () => dispatch(index + 1))
+    }
+
+    return dispatch(0)
+  }
+}
@@ -0,0 +1,208 @@
+#!/usr/bin/env ts-node
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+// tslint:disable:no-shadowed-variable
+import test  from 'blue-tape'
+import sinon from 'sinon'
+
+import { PuppetMock } from 'wechaty-puppet-mock'
+
+import { Wechaty }    from './wechaty'
+
+test('use() install plugins on start, and uninstall them on stop', async t => {
+  const puppet  = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+
+  const installSpy   = sinon.spy()
+  const uninstallSpy = sinon.spy()
+  const listenerSpy  = sinon.spy()
+
+  wechaty.use(bot => {
+    installSpy(bot)
+    bot.on('dong', listenerSpy)
+    return uninstallSpy
+  })
+  t.true(installSpy.notCalled, 'should not install before start')
+
+  await wechaty.start()
+  t.true(installSpy.calledOnce, 'should install after start')
+  t.true(installSpy.firstCall.args[0] instanceof Wechaty, 'should install with a wechaty')
+  t.equal(installSpy.firstCall.args[0].id, wechaty.id, 'should install with the scoped bot of the wechaty instance')
+
+  wechaty.emit('dong')
+  t.true(listenerSpy.calledOnce, 'should get event from the plugin listener')
+
+  await wechaty.stop()
+  t.true(uninstallSpy.calledOnce, 'should call uninstaller after stop')
+
+  wechaty.emit('dong')
+  t.true(listenerSpy.calledOnce, 'should have removed the plugin listener after stop')
+
+  await wechaty.start()
+  t.true(installSpy.calledTwice, 'should install again after restart')
+  await wechaty.stop()
+})
+
+test('use() install plugins by priority', async t => {
+  const wechaty = new Wechaty({ puppet: new PuppetMock() })
+
+  const nameList: string[] = []
+  const plugin = (name: string, priority?: number) => ({
+    install: () => { nameList.push(name) },
+    name,
+    priority,
+  })
+
+  wechaty.use(
+    plugin('a'),
+    plugin('b', 10),
+    plugin('c'),
+    plugin('d', -1),
+  )
+
+  await wechaty.start()
+  t.deepEqual(nameList, ['b', 'a', 'c', 'd'], 'should install by priority, then by the order of use()')
+
+  nameList.length = 0
+  wechaty.use(plugin('e'))
+  await new Promise(resolve => setImmediate(resolve))
+  t.deepEqual(nameList, ['e'], 'should install new plugin immediately after started')
+
+  await wechaty.stop()
+})
+
+test('use() isolate plugin errors', async t => {
+  const wechaty = new Wechaty({ puppet: new PuppetMock() })
+
+  const EXPECTED_ERROR = new Error('plugin error')
+
+  const errorSpy   = sinon.spy()
+  const onErrorSpy = sinon.spy()
+  const goodSpy    = sinon.spy()
+
+  wechaty.on('error', errorSpy)
+
+  wechaty.use(
+    {
+      install: () => { throw new Error('install error') },
+      name: 'broken',
+      onError: onErrorSpy,
+    },
+    {
+      install: bot => { bot.on('dong', () => { throw EXPECTED_ERROR }) },
+      name: 'thrower',
+      onError: onErrorSpy,
+    },
+    {
+      install: bot => { bot.on('dong', goodSpy) },
+      name: 'good',
+    },
+  )
+
+  await wechaty.start()
+  t.true(onErrorSpy.calledOnce, 'should report install error to the plugin')
+
+  wechaty.emit('dong')
+  t.true(goodSpy.calledOnce, 'should call listener of other plugins')
+  t.true(onErrorSpy.calledTwice, 'should report listener error to the plugin')
+  t.equal(onErrorSpy.secondCall.args[0], EXPECTED_ERROR, 'should get the error thrown by listener')
+  t.true(errorSpy.notCalled, 'should not emit error event on wechaty')
+
+  await wechaty.stop()
+})
+
+test('use() install the plugins one by one when called concurrently', async t => {
+  const wechaty = new Wechaty({ puppet: new PuppetMock() })
+  await wechaty.start()
+
+  const spyA = sinon.spy()
+  const spyB = sinon.spy()
+
+  wechaty.use({
+    install: async bot => {
+      await new Promise(resolve => setTimeout(resolve, 10))
+      bot.on('dong', spyA)
+    },
+    name: 'a',
+  })
+  wechaty.use({
+    install: async bot => {
+      bot.on('dong', spyB)
+    },
+    name: 'b',
+  })
+  await new Promise(resolve => setTimeout(resolve, 50))
+
+  wechaty.emit('dong')
+  t.true(spyA.calledOnce && spyB.calledOnce, 'should install both plugins')
+
+  await wechaty.stop()
+
+  wechaty.emit('dong')
+  t.true(spyA.calledOnce, 'should have removed the listener registered after the await of the plugin')
+  t.true(spyB.calledOnce, 'should have removed the listener of the other plugin')
+})
+
+test('use() not attribute the listeners registered outside of the plugin during its installation', async t => {
+  const wechaty = new Wechaty({ puppet: new PuppetMock() })
+  await wechaty.start()
+
+  const pluginSpy  = sinon.spy()
+  const outsideSpy = sinon.spy()
+
+  let installed = () => {}
+  const future  = new Promise<void>(resolve => { installed = resolve })
+
+  wechaty.use({
+    install: async bot => {
+      await new Promise(resolve => setTimeout(resolve, 10))
+      bot.on('dong', pluginSpy)
+      installed()
+    },
+    name: 'slow',
+  })
+  await new Promise(resolve => setImmediate(resolve))
+  wechaty.on('dong', outsideSpy)
+  await future
+
+  await wechaty.stop()
+
+  wechaty.emit('dong')
+  t.true(pluginSpy.notCalled, 'should have removed the listener of the plugin')
+  t.true(outsideSpy.calledOnce, 'should keep the listener registered outside of the plugin')
+})
+
+test('use() install the plugins added while starting', async t => {
+  const puppet  = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+
+  const installSpy = sinon.spy()
+
+  const start = puppet.start.bind(puppet)
+  sinon.stub(puppet, 'start').callsFake(async () => {
+    wechaty.use(installSpy)
+    return start()
+  })
+
+  await wechaty.start()
+  await new Promise(resolve => setImmediate(resolve))
+  t.true(installSpy.calledOnce, 'should install the plugin added during start()')
+
+  await wechaty.stop()
+})
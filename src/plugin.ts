@@ -0,0 +1,262 @@
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+import {
+  log,
+  Raven,
+}                 from './config'
+import {
+  Wechaty,
+}                 from './wechaty'
+
+/**
+ * Returned by a plugin when it has something to clean up besides its listeners & middlewares.
+ */
+export type WechatyPluginUninstaller = () => void | Promise<void>
+
+export type WechatyPluginFunction = (
+  bot: Wechaty,
+) => void | WechatyPluginUninstaller | Promise<void | WechatyPluginUninstaller>
+
+export interface WechatyPluginObject {
+  name      : string,
+  /**
+   * Plugins with a higher priority will be installed first,
+   * so their listeners will be called first. Default: 0
+   */
+  priority? : number,
+  install   : WechatyPluginFunction,
+  /**
+   * Exceptions from the listeners of this plugin will be sent to here,
+   * instead of the `error` event of the Wechaty.
+   */
+  onError?  : (error: Error, bot: Wechaty) => void,
+}
+
+export type WechatyPlugin = WechatyPluginFunction | WechatyPluginObject
+
+/**
+ * `once()` of the EventEmitter calls `on()`, so it will be scoped too.
+ */
+const SCOPED_METHOD_LIST: PropertyKey[] = [
+  'on',
+  'middleware',
+]
+
+interface PluginEntry {
+  plugin       : WechatyPluginObject,
+  seq          : number,
+  installed    : boolean,
+  cleanupList  : Array<() => void>,
+  uninstaller? : WechatyPluginUninstaller,
+}
+
+export class PluginManager {
+
+  private entryList : PluginEntry[] = []
+  private seq       = 0
+
+  /**
+   * The plugin which is registering a listener (or middleware) by its scoped bot right now.
+   * It is only set during the synchronous call of `on()` / `middleware()`,
+   * so the calls from outside of the plugin will never be attributed to it.
+   */
+  private registering? : PluginEntry
+
+  /**
+   * The installations run one by one, by the order of priority.
+   */
+  private installQueue: Promise<void> = Promise.resolve()
+
+  constructor (
+    private wechaty: Wechaty,
+  ) {
+    log.verbose('PluginManager', 'constructor()')
+  }
+
+  public add (plugin: WechatyPlugin): void {
+    const pluginObject: WechatyPluginObject = typeof plugin === 'function'
+      ? { install: plugin, name: plugin.name || 'anonymous' }
+      : plugin
+
+    log.verbose('PluginManager', 'add(%s)', pluginObject.name)
+
+    if (typeof pluginObject.install !== 'function') {
+      throw new Error('plugin ' + pluginObject.name + ' has no install() function')
+    }
+
+    this.entryList.push({
+      cleanupList  : [],
+      installed    : false,
+      plugin       : pluginObject,
+      seq          : this.seq++,
+    })
+
+    this.entryList.sort((a, b) =>
+      ((b.plugin.priority || 0) - (a.plugin.priority || 0))
+      || (a.seq - b.seq),
+    )
+  }
+
+  public nameList (): string[] {
+    return this.entryList.map(entry => entry.plugin.name)
+  }
+
+  /**
+   * Install all the plugins which had not been installed yet, by the order of priority.
+   *
+   * An exception from one plugin will not stop the others to be installed.
+   * The concurrent calls will be queued, and installed after the previous ones.
+   */
+  public async install (): Promise<void> {
+    log.verbose('PluginManager', 'install()')
+
+    const future = this.installQueue.then(() => this.installPending())
+    this.installQueue = future.catch(() => undefined)
+    return future
+  }
+
+  private async installPending (): Promise<void> {
+    log.verbose('PluginManager', 'installPending()')
+
+    for (const entry of this.entryList) {
+      if (entry.installed) {
+        continue
+      }
+      entry.installed = true
+
+      try {
+        const uninstaller = await entry.plugin.install(this.scopedBot(entry))
+        if (typeof uninstaller === 'function') {
+          entry.uninstaller = uninstaller
+        }
+      } catch (e) {
+        log.error('PluginManager', 'install() plugin "%s" exception: %s', entry.plugin.name, e && e.message)
+        this.error(entry, e)
+      }
+    }
+  }
+
+  /**
+   * The bot given to `install()` of a plugin:
+   * the listeners & middlewares registered by it belong to the plugin,
+   * even if they are registered after an `await`.
+   */
+  private scopedBot (entry: PluginEntry): Wechaty {
+    return new Proxy(this.wechaty, {
+      get: (target, property, receiver) => {
+        const value = Reflect.get(target, property, receiver)
+        if (!SCOPED_METHOD_LIST.includes(property) || typeof value !== 'function') {
+          return value
+        }
+        return (...argList: any[]) => {
+          const result = this.registerFor(entry, () => value.apply(target, argList))
+          // keep chaining on the scoped bot
+          return result === target ? receiver : result
+        }
+      },
+    })
+  }
+
+  private registerFor<T> (
+    entry    : PluginEntry,
+    register : () => T,
+  ): T {
+    const previous = this.registering
+    this.registering = entry
+    try {
+      return register()
+    } finally {
+      this.registering = previous
+    }
+  }
+
+  /**
+   * Remove all the listeners & middlewares registered by plugins, and call their uninstallers, in the reverse order.
+   */
+  public async uninstall (): Promise<void> {
+    log.verbose('PluginManager', 'uninstall()')
+
+    for (const entry of [...this.entryList].reverse()) {
+      if (!entry.installed) {
+        continue
+      }
+      entry.installed = false
+
+      entry.cleanupList.forEach(cleanup => cleanup())
+      entry.cleanupList = []
+
+      try {
+        if (entry.uninstaller) {
+          await entry.uninstaller()
+        }
+      } catch (e) {
+        log.error('PluginManager', 'uninstall() plugin "%s" exception: %s', entry.plugin.name, e && e.message)
+        this.error(entry, e)
+      } finally {
+        entry.uninstaller = undefined
+      }
+    }
+  }
+
+  /**
+   * @private
+   *
+   * Get the error handler of the plugin which is registering,
+   * or `undefined` if the caller does not come from a plugin.
+   */
+  public errorHandler (): undefined | ((error: Error) => void) {
+    const entry = this.registering
+    if (!entry) {
+      return undefined
+    }
+    return (error: Error) => this.error(entry, error)
+  }
+
+  /**
+   * @private
+   *
+   * Remember how to remove the listener (or middleware) registered by the plugin,
+   * so that we can remove it when uninstall.
+   */
+  public track (cleanup: () => void): void {
+    if (this.registering) {
+      this.registering.cleanupList.push(cleanup)
+    }
+  }
+
+  private error (
+    entry : PluginEntry,
+    error : Error,
+  ): void {
+    log.verbose('PluginManager', 'error() plugin "%s": %s', entry.plugin.name, error && error.message)
+
+    if (!entry.plugin.onError) {
+      this.wechaty.emit('error', error)
+      return
+    }
+
+    try {
+      entry.plugin.onError(error, this.wechaty)
+    } catch (e) {
+      log.error('PluginManager', 'error() plugin "%s" onError() exception: %s', entry.plugin.name, e && e.message)
+      Raven.captureException(e)
+    }
+  }
+
+}
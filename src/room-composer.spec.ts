@@ -0,0 +1,116 @@
+#!/usr/bin/env ts-node
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+// tslint:disable:no-shadowed-variable
+import test  from 'blue-tape'
+import sinon from 'sinon'
+
+import {
+  ContactPayload,
+  RoomMemberPayload,
+  RoomPayload,
+}                     from 'wechaty-puppet'
+import { PuppetMock } from 'wechaty-puppet-mock'
+
+import { NotSupportedError }  from './errors'
+import { UrlLink }            from './user'
+import { Wechaty }            from './wechaty'
+
+test('RoomComposer', async t => {
+  const sandbox = sinon.createSandbox()
+
+  const puppet  = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+  await wechaty.start()
+
+  sandbox.stub(puppet, 'contactPayload').callsFake(async (id: string) => ({ id, name: `name-${id}` } as ContactPayload))
+  sandbox.stub(puppet, 'roomPayload').resolves({ memberIdList: ['c1', 'c2'], topic: 'topic' } as any as RoomPayload)
+  sandbox.stub(puppet, 'roomMemberList').resolves(['c1', 'c2'])
+  sandbox.stub(puppet, 'roomMemberPayload').callsFake(async (_: string, id: string) => ({
+    id,
+    roomAlias: id === 'c1' ? 'alias1' : '',
+  } as RoomMemberPayload))
+
+  const sendText = sandbox.stub(puppet, 'messageSendText').resolves()
+  const sendUrl  = sandbox.stub(puppet, 'messageSendUrl').resolves()
+
+  const room = wechaty.Room.load('room1')
+  await room.ready()
+  const c1 = wechaty.Contact.load('c1')
+  const c2 = wechaty.Contact.load('c2')
+  await Promise.all([c1.ready(), c2.ready()])
+
+  const urlLink = new UrlLink({ title: 'Wechaty', url: 'https://github.com/chatie/wechaty' })
+
+  await room.compose()
+    .text('Hi ')
+    .mention(c1, c2)
+    .text(' see ')
+    .link(urlLink)
+    .text('bye')
+    .send()
+
+  t.deepEqual(sendText.getCall(0).args, [
+    { contactId: 'c1', roomId: 'room1' },
+    'Hi @alias1\u2005@name-c2\u2005see',
+    ['c1', 'c2'],
+  ], 'should join the texts and mentions with the FOUR_PER_EM_SPACE separator')
+  t.equal(sendUrl.getCall(0).args[1].url, urlLink.url(), 'should send the url link')
+  t.deepEqual(sendText.getCall(1).args.slice(1, 2), ['bye'], 'should send the text after the url link')
+  t.true(sendText.getCall(0).calledBefore(sendUrl.getCall(0)), 'should send the parts in order')
+  t.true(sendUrl.getCall(0).calledBefore(sendText.getCall(1)), 'should send the parts in order')
+
+  sendText.resetHistory()
+  await room.compose({ maxLength: 12 })
+    .mention(c1)
+    .text('hello world, to be or not to be')
+    .send()
+  t.deepEqual(sendText.getCalls().map(call => call.args[1]), [
+    '@alias1',
+    'hello world,',
+    'to be or not',
+    'to be',
+  ], 'should split the long text on word boundaries')
+  t.deepEqual(sendText.getCalls().map(call => (call.args as any[])[2]), [
+    ['c1'],
+    undefined,
+    undefined,
+    undefined,
+  ], 'should keep the mention list with the chunk which has the mention')
+
+  sendText.resetHistory()
+  sendText.onFirstCall().rejects(new NotSupportedError('mention list is not supported', 'messageSendText'))
+  await room.compose().mention(c2).text('fallback').send()
+  t.deepEqual(sendText.getCall(1).args, [
+    { roomId: 'room1' },
+    '@name-c2\u2005fallback',
+  ], 'should fallback to plain text without the mention list')
+
+  sendText.reset()
+  sendText.rejects(new Error('timeout'))
+  try {
+    await room.compose().mention(c2).text('timeout').send()
+    t.fail('should reject')
+  } catch (e) {
+    t.true(sendText.calledOnce, 'should not fallback to plain text for the other errors')
+  }
+
+  await wechaty.stop()
+  sandbox.restore()
+})
@@ -0,0 +1,290 @@
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+import {
+  FileBox,
+}                 from 'file-box'
+
+import {
+  FOUR_PER_EM_SPACE,
+  log,
+}                 from './config'
+import {
+  NotSupportedError,
+}                 from './errors'
+import {
+  DEFAULT_SPLIT_TEXT_MAX_LENGTH,
+  splitPoint,
+}                 from './helper-functions'
+import {
+  Contact,
+  Message,
+  MiniProgram,
+  Room,
+  UrlLink,
+}                 from './user'
+
+export interface RoomComposerOptions {
+  /**
+   * Split the text into chunks which are not longer than this. Default: 2000
+   */
+  maxLength?: number,
+}
+
+type RoomComposerPart = { type: 'text',    text: string }
+                      | { type: 'mention', contact: Contact }
+                      | { type: 'content', say: () => Promise<void | Message> }
+
+interface TextChunk {
+  text        : string,
+  mentionList : Contact[],
+}
+
+/**
+ * Build a message with mentions and rich contents for the room, then send it by `send()`.
+ *
+ * The texts and mentions are joined to one text message (or chunks if it is too long),
+ * and the other contents are sent as separate messages in order.
+ *
+ * @example
+ * await room.compose()
+ *   .text('Hi ')
+ *   .mention(contact)
+ *   .text(', see ')
+ *   .link(urlLink)
+ *   .send()
+ */
+export class RoomComposer {
+
+  private readonly partList: RoomComposerPart[]
+
+  constructor (
+    private readonly room    : Room,
+    private readonly options : RoomComposerOptions = {},
+  ) {
+    log.verbose('RoomComposer', 'constructor(%s)', room)
+    this.partList = []
+  }
+
+  public text (text: string): this {
+    this.partList.push({ text, type: 'text' })
+    return this
+  }
+
+  public mention (...contactList: Contact[]): this {
+    for (const contact of contactList) {
+      this.partList.push({ contact, type: 'mention' })
+    }
+    return this
+  }
+
+  public link (urlLink: UrlLink): this {
+    this.partList.push({ say: () => this.room.say(urlLink), type: 'content' })
+    return this
+  }
+
+  public file (file: FileBox): this {
+    this.partList.push({ say: () => this.room.say(file), type: 'content' })
+    return this
+  }
+
+  /**
+   * Contact card
+   */
+  public contact (contact: Contact): this {
+    this.partList.push({ say: () => this.room.say(contact), type: 'content' })
+    return this
+  }
+
+  public miniProgram (miniProgram: MiniProgram): this {
+    this.partList.push({ say: () => this.room.say(miniProgram), type: 'content' })
+    return this
+  }
+
+  /**
+   * Send all the parts in order.
+   *
+   * @returns {Promise<Message[]>} - the sent messages, if the puppet supports to return them
+   */
+  public async send (): Promise<Message[]> {
+    log.verbose('RoomComposer', 'send() %d parts', this.partList.length)
+
+    const messageList: Message[] = []
+    const collect = (message: void | Message) => {
+      if (message) {
+        messageList.push(message)
+      }
+    }
+
+    let textPartList: RoomComposerPart[] = []
+
+    for (const part of [...this.partList, undefined]) {
+      if (part && part.type !== 'content') {
+        textPartList.push(part)
+        continue
+      }
+
+      if (textPartList.length) {
+        const chunkList = chunkText(
+          await this.tokenize(textPartList),
+          this.options.maxLength || DEFAULT_SPLIT_TEXT_MAX_LENGTH,
+        )
+        for (const chunk of chunkList) {
+          collect(await this.sendText(chunk))
+        }
+        textPartList = []
+      }
+
+      if (part) {
+        collect(await part.say())
+      }
+    }
+
+    return messageList
+  }
+
+  /**
+   * Convert the mentions to `@name` with the `FOUR_PER_EM_SPACE` separator
+   */
+  private async tokenize (partList: RoomComposerPart[]): Promise<TextChunk[]> {
+    const tokenList: TextChunk[] = []
+    let afterMention = false
+
+    for (const part of partList) {
+      if (part.type === 'mention') {
+        const name = await this.room.alias(part.contact) || part.contact.name()
+        tokenList.push({
+          mentionList : [part.contact],
+          text        : '@' + name + FOUR_PER_EM_SPACE,
+        })
+        afterMention = true
+      } else if (part.type === 'text') {
+        // the separator after the mention had already been a space
+        const text = afterMention
+          ? part.text.replace(/^ /, '')
+          : part.text
+        tokenList.push({ mentionList: [], text })
+        afterMention = false
+      }
+    }
+
+    return tokenList
+  }
+
+  private async sendText (chunk: TextChunk): Promise<void | Message> {
+    const receiver = {
+      contactId : (chunk.mentionList.length && chunk.mentionList[0].id) || undefined,
+      roomId    : this.room.id,
+    }
+    const mentionIdList = chunk.mentionList.map(contact => contact.id)
+
+    const msgId = await this.room.wechaty.sendQueue.push(this.room, chunk.text, async () => {
+      if (mentionIdList.length === 0) {
+        return this.room.puppet.messageSendText(receiver, chunk.text)
+      }
+      try {
+        return await this.room.puppet.messageSendText(receiver, chunk.text, mentionIdList)
+      } catch (e) {
+        /**
+         * Only fallback when the puppet does not support the mention list,
+         * the other errors (like a timeout) might happen after the message had been delivered.
+         */
+        if (!notSupported(e)) {
+          throw e
+        }
+        /**
+         * The `@name` is in the text already, it still looks like a mention without the native mention list
+         */
+        log.warn('RoomComposer', 'sendText() with mention list failed: %s, fallback to plain text', e && e.message)
+        return this.room.puppet.messageSendText({ roomId: this.room.id }, chunk.text)
+      }
+    })
+
+    if (msgId) {
+      const msg = this.room.wechaty.Message.load(msgId)
+      await msg.ready()
+      await this.room.wechaty.archiveMessage(msg)
+      return msg
+    }
+  }
+
+}
+
+/**
+ * The puppets can not import the `NotSupportedError` of Wechaty, so check its name as well.
+ */
+function notSupported (e: any): boolean {
+  return e instanceof NotSupportedError
+    || (!!e && e.name === 'NotSupportedError')
+}
+
+/**
+ * Split the tokens to chunks not longer than `maxLength`,
+ * on the paragraph, line, sentence or word boundaries if possible, and never inside a mention.
+ */
+function chunkText (
+  tokenList : TextChunk[],
+  maxLength : number,
+): TextChunk[] {
+  const chunkList: TextChunk[] = []
+  let current: TextChunk = { mentionList: [], text: '' }
+
+  const flush = () => {
+    const text = current.text.trim()
+    if (text) {
+      chunkList.push({ ...current, text })
+    }
+    current = { mentionList: [], text: '' }
+  }
+
+  for (const token of tokenList) {
+    if (token.mentionList.length) {
+      if (current.text && current.text.length + token.text.length > maxLength) {
+        flush()
+      }
+      current.text += token.text
+      current.mentionList.push(...token.mentionList)
+      continue
+    }
+
+    let rest = token.text
+    while (rest) {
+      const space = maxLength - current.text.length
+      if (rest.length <= space) {
+        current.text += rest
+        break
+      }
+
+      let cut = splitPoint(rest, space)
+      if (cut <= 0 && current.text) {
+        flush()
+        continue
+      }
+      if (cut <= 0) {
+        cut = space
+      }
+
+      current.text += rest.slice(0, cut)
+      flush()
+      rest = rest.slice(cut).replace(/^\s+/, '')
+    }
+  }
+  flush()
+
+  return chunkList
+}
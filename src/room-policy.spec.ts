@@ -0,0 +1,251 @@
+#!/usr/bin/env ts-node
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+// tslint:disable:no-shadowed-variable
+import test  from 'blue-tape'
+import sinon from 'sinon'
+
+import {
+  ContactPayload,
+  MessagePayload,
+  MessageType,
+  RoomMemberPayload,
+  RoomPayload,
+}                     from 'wechaty-puppet'
+import { PuppetMock } from 'wechaty-puppet-mock'
+
+import {
+  RoomPolicy,
+  RoomPolicyViolation,
+}                     from './room-policy'
+import { Wechaty }    from './wechaty'
+
+test('RoomPolicy', async t => {
+  const sandbox = sinon.createSandbox()
+
+  const puppet  = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+
+  const violationList: RoomPolicyViolation[] = []
+  wechaty.use(new RoomPolicy({
+    kickNotice  : '{name} had been removed for {reason}',
+    onViolation : violation => { violationList.push(violation) },
+    ruleList    : [
+      {
+        approve   : contact => contact.id !== 'spammer',
+        blacklist : [/buy\s+now/i],
+        flood     : { interval: 60 * 1000, limit: 2 },
+        maxMember : 3,
+        noLink    : true,
+        topic     : /^community-/,
+        welcome   : 'Welcome {name} to {topic}! {announce}',
+      },
+    ],
+  }))
+  await wechaty.start()
+
+  const MESSAGE_PAYLOAD_LIST = [
+    { id: 'ok',      text: 'hello' },
+    { id: 'ads',     text: 'Buy  now!' },
+    { id: 'link',    text: 'see https://example.com' },
+    { id: 'flood-1', text: 'a' },
+    { id: 'flood-2', text: 'b' },
+    { id: 'flood-3', text: 'c' },
+  ]
+
+  sandbox.stub(puppet, 'contactPayload').callsFake(async (id: string) => ({ id, name: `name-${id}` } as ContactPayload))
+  sandbox.stub(puppet, 'roomPayload').resolves({ id: 'room1', memberIdList: [], topic: 'community-1' } as any as RoomPayload)
+  sandbox.stub(puppet, 'roomMemberList').resolves(['c1', 'c2', 'c3', 'c4'])
+  sandbox.stub(puppet, 'roomMemberPayload').callsFake(async (_: string, id: string) => ({ id } as RoomMemberPayload))
+  sandbox.stub(puppet, 'roomAnnounce').resolves('Be nice.' as any)
+  sandbox.stub(puppet, 'messagePayload').callsFake(async (id: string) => ({
+    ...MESSAGE_PAYLOAD_LIST.filter(p => p.id === id)[0],
+    fromId    : id.startsWith('flood') ? 'flooder' : `sender-${id}`,
+    roomId    : 'room1',
+    timestamp : Date.now(),
+    type      : MessageType.Text,
+  } as MessagePayload))
+
+  const roomDel  = sandbox.stub(puppet, 'roomDel').resolves()
+  const sendText = sandbox.stub(puppet, 'messageSendText').resolves()
+
+  const room = wechaty.Room.load('room1')
+  await room.ready()
+  const [c3, c4, spammer] = await Promise.all(['c3', 'c4', 'spammer'].map(async id => {
+    const contact = wechaty.Contact.load(id)
+    await contact.ready()
+    return contact
+  }))
+
+  wechaty.emit('room-join', room, [spammer, c3, c4], wechaty.Contact.load('c1'), new Date())
+  await new Promise(resolve => setTimeout(resolve, 50))
+
+  t.deepEqual(roomDel.getCalls().map(call => call.args[1]), ['spammer', 'c4'], 'should remove the not approved and the overflow members')
+  t.deepEqual(violationList.map(v => v.reason), ['not-approved', 'max-member'], 'should report the violations')
+  t.deepEqual(
+    sendText.getCalls().map(call => call.args[1]),
+    [
+      'name-spammer had been removed for not-approved',
+      'name-c4 had been removed for max-member',
+      '@name-c3 Welcome name-c3 to community-1! Be nice.',
+    ],
+    'should say the kick notices and welcome the new member',
+  )
+
+  roomDel.resetHistory()
+  violationList.length = 0
+
+  const messageSpy = sinon.spy()
+  wechaty.on('message', messageSpy)
+
+  for (const payload of MESSAGE_PAYLOAD_LIST) {
+    puppet.emit('message', payload.id)
+    await new Promise(resolve => setTimeout(resolve, 10))
+  }
+
+  t.deepEqual(violationList.map(v => v.reason), ['blacklist', 'link', 'flood'], 'should detect the violations of the messages')
+  t.deepEqual(roomDel.getCalls().map(call => call.args[1]), ['sender-ads', 'sender-link', 'flooder'], 'should remove the senders')
+  t.deepEqual(
+    messageSpy.getCalls().map(call => call.args[0].id),
+    ['ok', 'flood-1', 'flood-2'],
+    'should drop the messages which violated the rules',
+  )
+
+  await wechaty.stop()
+  sandbox.restore()
+})
+
+test('RoomPolicy report the violation when failed to remove the member', async t => {
+  const sandbox = sinon.createSandbox()
+  const clock   = sandbox.useFakeTimers({ now: Date.now(), toFake: ['Date'] })
+
+  const puppet  = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+
+  const violationList: RoomPolicyViolation[] = []
+  const policy = new RoomPolicy({
+    kickNotice  : '{name} had been removed for {reason}',
+    onViolation : violation => { violationList.push(violation) },
+    ruleList    : [
+      {
+        blacklist : ['ads'],
+        flood     : { interval: 1000, limit: 10 },
+      },
+    ],
+  })
+  wechaty.use(policy)
+  await wechaty.start()
+
+  const errorSpy   = sinon.spy()
+  const messageSpy = sinon.spy()
+  wechaty.on('error', errorSpy)
+  wechaty.on('message', messageSpy)
+
+  sandbox.stub(puppet, 'contactPayload').callsFake(async (id: string) => ({ id, name: id } as ContactPayload))
+  sandbox.stub(puppet, 'roomPayload').resolves({ id: 'room1', memberIdList: [], topic: 'topic' } as any as RoomPayload)
+  sandbox.stub(puppet, 'roomMemberList').resolves([])
+  sandbox.stub(puppet, 'messagePayload').callsFake(async (id: string) => ({
+    fromId    : `sender-${id}`,
+    id,
+    roomId    : 'room1',
+    text      : id,
+    timestamp : Date.now(),
+    type      : MessageType.Text,
+  } as MessagePayload))
+
+  const EXPECTED_ERROR = new Error('not the owner')
+  sandbox.stub(puppet, 'roomDel').rejects(EXPECTED_ERROR)
+  const sendText = sandbox.stub(puppet, 'messageSendText').resolves()
+
+  puppet.emit('message', 'ads')
+  await new Promise(resolve => setTimeout(resolve, 10))
+
+  t.equal(violationList.length, 1, 'should report the violation')
+  t.equal(violationList[0].error, EXPECTED_ERROR, 'should report the error of removing the member')
+  t.true(errorSpy.notCalled, 'should not emit error event on wechaty')
+  t.true(messageSpy.notCalled, 'should drop the message which violated the rules')
+  t.true(sendText.notCalled, 'should not say the kick notice')
+
+  puppet.emit('message', 'hello')
+  puppet.emit('message', 'hi')
+  await new Promise(resolve => setTimeout(resolve, 10))
+  t.equal(Object.keys((policy as any).sentLogDict).length, 2, 'should log the messages for the flood detection')
+
+  clock.tick(2 * 60 * 1000)
+  puppet.emit('message', 'world')
+  await new Promise(resolve => setTimeout(resolve, 10))
+  t.equal(Object.keys((policy as any).sentLogDict).length, 1, 'should prune the expired logs')
+
+  await wechaty.stop()
+  sandbox.restore()
+})
+
+test('RoomPolicy exempt the owner & admins, and never remove the bot itself', async t => {
+  const sandbox = sinon.createSandbox()
+
+  const puppet  = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+
+  const violationList: RoomPolicyViolation[] = []
+  wechaty.use(new RoomPolicy({
+    onViolation : violation => { violationList.push(violation) },
+    ruleList    : [
+      {
+        approve   : () => false,
+        blacklist : [/ads/g],
+      },
+    ],
+  }))
+  await wechaty.start()
+
+  sandbox.stub(puppet, 'selfId').returns('bot')
+  sandbox.stub(puppet, 'contactPayload').callsFake(async (id: string) => ({ id, name: id } as ContactPayload))
+  sandbox.stub(puppet, 'roomPayload').resolves({ id: 'room1', memberIdList: [], ownerId: 'owner', topic: 'topic' } as any as RoomPayload)
+  sandbox.stub(puppet, 'roomMemberList').resolves([])
+  sandbox.stub(puppet, 'messagePayload').callsFake(async (id: string) => ({
+    fromId    : id,
+    id,
+    roomId    : 'room1',
+    text      : 'ads',
+    timestamp : Date.now(),
+    type      : MessageType.Text,
+  } as MessagePayload))
+  ;(puppet as any).roomAdminList = async () => ['admin']
+
+  const roomDel = sandbox.stub(puppet, 'roomDel').resolves()
+
+  const room = wechaty.Room.load('room1')
+  await room.ready()
+  const bot = wechaty.Contact.load('bot')
+  await bot.ready()
+
+  wechaty.emit('room-join', room, [bot], wechaty.Contact.load('owner'), new Date())
+  await new Promise(resolve => setTimeout(resolve, 10))
+  t.true(roomDel.notCalled, 'should not remove the bot itself')
+
+  for (const id of ['owner', 'admin', 'spammer1', 'spammer2']) {
+    puppet.emit('message', id)
+    await new Promise(resolve => setTimeout(resolve, 10))
+  }
+  t.deepEqual(roomDel.getCalls().map(call => call.args[1]), ['spammer1', 'spammer2'], 'should exempt the owner & admins, and match the global RegExp every time')
+  t.deepEqual(violationList.map(v => v.reason), ['blacklist', 'blacklist'], 'should report the violations')
+
+  await wechaty.stop()
+  sandbox.restore()
+})
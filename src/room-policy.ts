@@ -0,0 +1,390 @@
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+import {
+  log,
+}                 from './config'
+import {
+  NotSupportedError,
+}                 from './errors'
+import {
+  MessageMiddlewareNext,
+}                 from './middleware'
+import {
+  WechatyPluginObject,
+}                 from './plugin'
+import {
+  SendRateLimit,
+}                 from './send-queue'
+import {
+  Contact,
+  Message,
+  Room,
+}                 from './user'
+import {
+  Wechaty,
+}                 from './wechaty'
+
+/**
+ * A rule without `id` and `topic` applies to all the rooms.
+ */
+export interface RoomPolicyRule {
+  /**
+   * The rule applies to the room which has this id
+   */
+  id?         : string,
+  /**
+   * The rule applies to the rooms which have this topic, or the topic matched the RegExp
+   */
+  topic?      : string | RegExp,
+  /**
+   * Say to the new members, who will be mentioned.
+   * Placeholders: `{name}` for the names of the new members, `{topic}`, and `{announce}` for the announcement of the room.
+   */
+  welcome?    : string,
+  /**
+   * Remove the sender of the message which contains the keyword, or matched the RegExp.
+   * The owner and the admins of the room are exempted from `blacklist`, `noLink` and `flood`.
+   */
+  blacklist?  : Array<string | RegExp>,
+  /**
+   * Remove the sender of the url link, or the text which contains an url
+   */
+  noLink?     : boolean,
+  /**
+   * Remove the member who sent more than `limit` messages in `interval` milliseconds
+   */
+  flood?      : SendRateLimit,
+  /**
+   * Remove the new members when the room has more members than this
+   */
+  maxMember?  : number,
+  /**
+   * Remove the new member if it resolved to `false`
+   */
+  approve?    : (contact: Contact, room: Room) => boolean | Promise<boolean>,
+}
+
+export type RoomPolicyReason = 'blacklist'
+                             | 'link'
+                             | 'flood'
+                             | 'max-member'
+                             | 'not-approved'
+
+export interface RoomPolicyViolation {
+  room     : Room,
+  contact  : Contact,
+  reason   : RoomPolicyReason,
+  /**
+   * The message which violated the rule, `undefined` for the violations on join
+   */
+  message? : Message,
+  /**
+   * The member could not be removed from the room, like the bot is not the owner or an admin of it
+   */
+  error?   : Error,
+}
+
+export interface RoomPolicyOptions {
+  /**
+   * The first rule which matches the room will be applied
+   */
+  ruleList     : RoomPolicyRule[],
+  /**
+   * Say in the room after a member had been removed.
+   * Placeholders: `{name}` for the name of the member, and `{reason}`.
+   */
+  kickNotice?  : string,
+  /**
+   * Called after a member had been removed from the room,
+   * or failed to be removed with the `error` of the violation.
+   */
+  onViolation? : (violation: RoomPolicyViolation) => void | Promise<void>,
+}
+
+const LINK_REGEX = /https?:\/\/\S+/i
+
+/**
+ * Remove the expired logs of the flood detection at most once in this milliseconds
+ */
+const PRUNE_INTERVAL = 60 * 1000
+
+interface SentLog {
+  interval : number,
+  timeList : number[],
+}
+
+/**
+ * Moderate the rooms by rules: welcome messages, join approval, member cap, keyword/link blacklist and flood detection.
+ *
+ * The policy is a Wechaty plugin: use it by `bot.use(policy)`.
+ * The messages which violated the rules will be dropped before the `message` listeners.
+ *
+ * @example
+ * bot.use(new RoomPolicy({
+ *   kickNotice : '{name} had been removed for {reason}',
+ *   ruleList   : [
+ *     {
+ *       blacklist : ['ads', /buy\s+now/i],
+ *       flood     : { interval: 10 * 1000, limit: 5 },
+ *       maxMember : 450,
+ *       noLink    : true,
+ *       topic     : /^community-/,
+ *       welcome   : 'Welcome {name} to {topic}! Please read the rules: {announce}',
+ *     },
+ *   ],
+ * }))
+ */
+export class RoomPolicy implements WechatyPluginObject {
+
+  public readonly name = 'RoomPolicy'
+
+  private readonly sentLogDict : { [roomContactId: string]: SentLog }
+  private lastPruneTime       : number
+
+  constructor (
+    private readonly options: RoomPolicyOptions,
+  ) {
+    log.verbose('RoomPolicy', 'constructor(%d rules)', options.ruleList.length)
+    this.sentLogDict   = {}
+    this.lastPruneTime = 0
+  }
+
+  public install (bot: Wechaty): void {
+    log.verbose('RoomPolicy', 'install(%s)', bot)
+
+    bot.on('room-join', (room, inviteeList) => this.onJoin(room, inviteeList))
+    bot.middleware((message, next) => this.onMessage(message, next))
+  }
+
+  /**
+   * The rule for the room, `undefined` if no rule matches it.
+   */
+  public async rule (room: Room): Promise<undefined | RoomPolicyRule> {
+    const topic = await room.topic()
+
+    return this.options.ruleList.find(rule => {
+      if (rule.id) {
+        return rule.id === room.id
+      }
+      if (rule.topic) {
+        return typeof rule.topic === 'string'
+          ? rule.topic === topic
+          : matchRegExp(rule.topic, topic)
+      }
+      return true
+    })
+  }
+
+  private async onJoin (
+    room        : Room,
+    inviteeList : Contact[],
+  ): Promise<void> {
+    const rule = await this.rule(room)
+    if (!rule) {
+      return
+    }
+    log.verbose('RoomPolicy', 'onJoin(%s, %s)', room, inviteeList.join(','))
+
+    const welcomeList: Contact[] = []
+
+    for (const contact of inviteeList) {
+      if (contact.self()) {
+        continue
+      }
+      if (rule.approve && !await rule.approve(contact, room)) {
+        await this.kick(room, contact, 'not-approved')
+        continue
+      }
+      welcomeList.push(contact)
+    }
+
+    if (rule.maxMember) {
+      const overflow = (await room.memberAll()).length - rule.maxMember
+      // remove the latest members first
+      for (const contact of welcomeList.splice(Math.max(0, welcomeList.length - overflow))) {
+        await this.kick(room, contact, 'max-member')
+      }
+    }
+
+    if (rule.welcome && welcomeList.length) {
+      const text = render(rule.welcome, {
+        announce : rule.welcome.includes('{announce}') ? await room.announce() : '',
+        name     : welcomeList.map(contact => contact.name()).join(', '),
+        topic    : await room.topic(),
+      })
+      await room.say(text, ...welcomeList)
+    }
+  }
+
+  private async onMessage (
+    message : Message,
+    next    : MessageMiddlewareNext,
+  ): Promise<void> {
+    const room    = message.room()
+    const contact = message.from()
+    const rule    = room && await this.rule(room)
+
+    if (!room || !contact || !rule || message.self()) {
+      return next()
+    }
+
+    const reason = this.violation(rule, message, room, contact)
+    if (!reason || await this.exempted(room, contact)) {
+      return next()
+    }
+
+    log.verbose('RoomPolicy', 'onMessage(%s) violated %s by %s', message, reason, contact)
+    await this.kick(room, contact, reason, message)
+  }
+
+  private violation (
+    rule    : RoomPolicyRule,
+    message : Message,
+    room    : Room,
+    contact : Contact,
+  ): undefined | RoomPolicyReason {
+    const text = message.text()
+
+    if (rule.blacklist) {
+      const matched = rule.blacklist.some(keyword => typeof keyword === 'string'
+        ? text.includes(keyword)
+        : matchRegExp(keyword, text),
+      )
+      if (matched) {
+        return 'blacklist'
+      }
+    }
+
+    if (rule.noLink) {
+      if (message.type() === Message.Type.Url || LINK_REGEX.test(text)) {
+        return 'link'
+      }
+    }
+
+    if (rule.flood) {
+      const key      = JSON.stringify([room.id, contact.id])
+      const now      = Date.now()
+      const interval = rule.flood.interval
+      const timeList = (this.sentLogDict[key] ? this.sentLogDict[key].timeList : [])
+        .filter(time => time > now - interval)
+
+      timeList.push(now)
+      this.sentLogDict[key] = { interval, timeList }
+      this.prune(now)
+
+      if (timeList.length > rule.flood.limit) {
+        delete this.sentLogDict[key]
+        return 'flood'
+      }
+    }
+
+    return undefined
+  }
+
+  /**
+   * The owner of the room, and the admins if the puppet supports them, will not be removed by the rules of messages.
+   */
+  private async exempted (
+    room    : Room,
+    contact : Contact,
+  ): Promise<boolean> {
+    const owner = room.owner()
+    if (owner && owner.id === contact.id) {
+      return true
+    }
+
+    try {
+      const adminList = await room.admins()
+      return adminList.some(admin => admin.id === contact.id)
+    } catch (e) {
+      if (!(e instanceof NotSupportedError)) {
+        log.warn('RoomPolicy', 'exempted(%s, %s) room.admins() rejection: %s', room, contact, e && e.message)
+      }
+      return false
+    }
+  }
+
+  /**
+   * Remove the logs of the members who have not sent any message in the `interval` of the flood rule.
+   */
+  private prune (now: number): void {
+    if (now - this.lastPruneTime < PRUNE_INTERVAL) {
+      return
+    }
+    this.lastPruneTime = now
+
+    for (const key of Object.keys(this.sentLogDict)) {
+      const sentLog = this.sentLogDict[key]
+      const latest  = sentLog.timeList[sentLog.timeList.length - 1]
+      if (latest === undefined || latest <= now - sentLog.interval) {
+        delete this.sentLogDict[key]
+      }
+    }
+  }
+
+  private async kick (
+    room     : Room,
+    contact  : Contact,
+    reason   : RoomPolicyReason,
+    message? : Message,
+  ): Promise<void> {
+    log.verbose('RoomPolicy', 'kick(%s, %s, %s)', room, contact, reason)
+
+    let error: undefined | Error
+    try {
+      await room.del(contact)
+    } catch (e) {
+      log.warn('RoomPolicy', 'kick(%s, %s, %s) room.del() rejection: %s', room, contact, reason, e && e.message)
+      error = e
+    }
+
+    if (!error && this.options.kickNotice) {
+      await room.say(render(this.options.kickNotice, {
+        name: contact.name(),
+        reason,
+      }))
+    }
+
+    if (this.options.onViolation) {
+      await this.options.onViolation({ contact, error, message, reason, room })
+    }
+  }
+
+}
+
+/**
+ * `test()` of the RegExp with the `g` or `y` flag starts from its `lastIndex`, so reset it before every test.
+ */
+function matchRegExp (
+  regex : RegExp,
+  text  : string,
+): boolean {
+  regex.lastIndex = 0
+  return regex.test(text)
+}
+
+function render (
+  template : string,
+  dict     : { [key: string]: string },
+): string {
+  return template.replace(/{(\w+)}/g, (placeholder, key) => key in dict
+    ? dict[key]
+    : placeholder,
+  )
+}
@@ -0,0 +1,104 @@
+#!/usr/bin/env ts-node
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+// tslint:disable:no-shadowed-variable
+import test  from 'blue-tape'
+import sinon from 'sinon'
+
+import { MemoryCard } from 'memory-card'
+import {
+  ContactPayload,
+  RoomPayload,
+}                     from 'wechaty-puppet'
+import { PuppetMock } from 'wechaty-puppet-mock'
+
+import { Wechaty }    from './wechaty'
+
+test('roomRoster', async t => {
+  const sandbox = sinon.createSandbox()
+
+  const puppet  = new PuppetMock()
+  const wechaty = new Wechaty({
+    memory     : new MemoryCard(),
+    puppet,
+    roomRoster : true,
+  })
+  await wechaty.start()
+
+  let memberIdList = ['c1', 'c2']
+
+  sandbox.stub(puppet, 'contactPayload').callsFake(async (id: string) => ({ id, name: id } as ContactPayload))
+  sandbox.stub(puppet, 'roomPayload').callsFake(async () => ({ id: 'room1', memberIdList, topic: 'topic' } as any as RoomPayload))
+  sandbox.stub(puppet, 'roomMemberList').callsFake(async () => memberIdList)
+  sandbox.stub(puppet, 'roomMemberPayload').callsFake(async (_: string, id: string) => ({ id, name: id } as any))
+
+  const roomJoin  = sinon.spy()
+  const roomLeave = sinon.spy()
+  const join      = sinon.spy()
+  wechaty.on('room-join', roomJoin)
+  wechaty.on('room-leave', roomLeave)
+
+  const room = wechaty.Room.load('room1')
+  room.on('join', join)
+
+  await room.sync()
+  t.equal(roomJoin.callCount + roomLeave.callCount, 0, 'should only save the snapshot for the first time')
+
+  memberIdList = ['c1', 'c3']
+  await room.sync()
+  t.deepEqual(roomJoin.firstCall.args[1].map((c: any) => c.id), ['c3'], 'should emit room-join for the new member')
+  t.equal(roomJoin.firstCall.args[2].id, wechaty.userSelf().id, 'should emit room-join with the bot itself as the inviter')
+  t.deepEqual(roomLeave.firstCall.args[1].map((c: any) => c.id), ['c2'], 'should emit room-leave for the left member')
+  t.equal(roomLeave.firstCall.args[2].id, wechaty.userSelf().id, 'should emit room-leave with the bot itself as the remover')
+  t.deepEqual(join.firstCall.args[0].map((c: any) => c.id), ['c3'], 'should emit join on the room')
+
+  await room.sync()
+  t.equal(roomJoin.callCount, 1, 'should not emit again without changes')
+
+  roomJoin.resetHistory()
+  memberIdList = ['c1', 'c3', 'c4']
+  const future = new Promise(resolve => wechaty.once('room-join', resolve))
+  puppet.emit('room-join', 'room1', ['c4'], 'c1', Date.now())
+  await future
+  t.equal(roomJoin.callCount, 1, 'should not emit the synthetic event for the change reported by the puppet')
+  t.equal(roomJoin.firstCall.args[2].id, 'c1', 'should emit the event of the puppet with the inviter')
+
+  roomJoin.resetHistory()
+  memberIdList = ['c1', 'c3', 'c4', 'c5']
+  await Promise.all([
+    wechaty.reconcileRoom(room),
+    wechaty.reconcileRoom(room),
+  ])
+  t.equal(roomJoin.callCount, 1, 'should not emit the same event twice for the concurrent reconciliations')
+
+  const history = await room.memberHistory()
+  t.deepEqual(
+    history.map(event => [event.type, event.contactId, event.synthetic]),
+    [
+      ['join', 'c3', true],
+      ['leave', 'c2', true],
+      ['join', 'c4', false],
+      ['join', 'c5', true],
+    ],
+    'should record the history of the member changes',
+  )
+
+  await wechaty.stop()
+  sandbox.restore()
+})
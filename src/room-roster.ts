@@ -0,0 +1,212 @@
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+import {
+  MemoryCard,
+}                 from 'memory-card'
+
+import {
+  log,
+}                 from './config'
+import {
+  Room,
+}                 from './user'
+import {
+  Wechaty,
+}                 from './wechaty'
+
+export interface RoomRosterOptions {
+  /**
+   * Max number of the events kept in the history of every room. Default: 1000
+   */
+  historyLimit?: number,
+}
+
+/**
+ * One change of the members in the room
+ */
+export interface RoomRosterEvent {
+  type      : 'join' | 'leave',
+  contactId : string,
+  /**
+   * Milliseconds since epoch
+   */
+  timestamp : number,
+  /**
+   * `true` if the change was found by diffing the member list,
+   * `false` if it was reported by the puppet.
+   */
+  synthetic : boolean,
+}
+
+interface RoomRosterRecord {
+  memberIdList : string[],
+  history      : RoomRosterEvent[],
+}
+
+const DEFAULT_HISTORY_LIMIT = 1000
+
+/**
+ * Snapshot the member list of every room to the memory of the bot,
+ * and emit the synthetic `room-join` and `room-leave` events for the changes missed by the puppet,
+ * like the ones happened when the bot was offline.
+ *
+ * The bot itself is the inviter or remover of the synthetic events,
+ * check `RoomRosterEvent.synthetic` in `room.memberHistory()` to tell them apart.
+ */
+export class RoomRoster {
+
+  private readonly historyLimit: number
+
+  /**
+   * The last reconciliation of every room: the reconciliations of the same room run one by one,
+   * so the concurrent ones will not emit the same events twice.
+   */
+  private readonly reconcilingDict: { [roomId: string]: Promise<void> }
+
+  constructor (
+    private readonly wechaty : Wechaty,
+    private readonly memory  : MemoryCard,
+    options                  : RoomRosterOptions = {},
+  ) {
+    log.verbose('RoomRoster', 'constructor(%s, %s, %s)', wechaty, memory, JSON.stringify(options))
+    this.historyLimit    = options.historyLimit || DEFAULT_HISTORY_LIMIT
+    this.reconcilingDict = {}
+  }
+
+  /**
+   * Diff the members of the room with the last snapshot, and emit the events for the changes.
+   *
+   * The first snapshot of the room will be saved without any event.
+   *
+   * @param {Room} room
+   * @param {string[]} [handledIdList] - the contacts in the events which had been emitted by the puppet,
+   * they will be recorded to the history without being emitted again.
+   */
+  public async reconcile (
+    room          : Room,
+    handledIdList : string[] = [],
+  ): Promise<void> {
+    log.verbose('RoomRoster', 'reconcile(%s, [%s])', room, handledIdList.join(','))
+
+    const previous = room.id in this.reconcilingDict
+      ? this.reconcilingDict[room.id]
+      : Promise.resolve()
+    const future   = previous
+      .catch(() => undefined)
+      .then(() => this.diff(room, handledIdList))
+
+    this.reconcilingDict[room.id] = future
+    try {
+      await future
+    } finally {
+      if (this.reconcilingDict[room.id] === future) {
+        delete this.reconcilingDict[room.id]
+      }
+    }
+  }
+
+  private async diff (
+    room          : Room,
+    handledIdList : string[],
+  ): Promise<void> {
+    log.silly('RoomRoster', 'diff(%s, [%s])', room, handledIdList.join(','))
+
+    const memberIdList = (await room.memberAll()).map(member => member.id)
+    const record       = await this.memory.get<RoomRosterRecord>(room.id)
+
+    if (!record) {
+      await this.memory.set<RoomRosterRecord>(room.id, { history: [], memberIdList })
+      await this.memory.save()
+      return
+    }
+
+    const joinIdList  = memberIdList.filter(id => !record.memberIdList.includes(id))
+    const leaveIdList = record.memberIdList.filter(id => !memberIdList.includes(id))
+
+    if (joinIdList.length === 0 && leaveIdList.length === 0) {
+      return
+    }
+
+    // the actor of the synthetic events
+    const self = this.wechaty.userSelf()
+
+    const date    = new Date()
+    const toEvent = (type: 'join' | 'leave') => (contactId: string): RoomRosterEvent => ({
+      contactId,
+      synthetic : !handledIdList.includes(contactId),
+      timestamp : date.getTime(),
+      type,
+    })
+
+    const history = [
+      ...record.history,
+      ...joinIdList.map(toEvent('join')),
+      ...leaveIdList.map(toEvent('leave')),
+    ].slice(-this.historyLimit)
+
+    await this.memory.set<RoomRosterRecord>(room.id, { history, memberIdList })
+    await this.memory.save()
+
+    const inviteeList = joinIdList
+      .filter(id => !handledIdList.includes(id))
+      .map(id => this.wechaty.Contact.load(id))
+    const leaverList = leaveIdList
+      .filter(id => !handledIdList.includes(id))
+      .map(id => this.wechaty.Contact.load(id))
+    await Promise.all([...inviteeList, ...leaverList].map(contact => contact.ready()))
+
+    if (inviteeList.length) {
+      log.verbose('RoomRoster', 'reconcile() %s synthetic join: %s', room, inviteeList.join(','))
+      this.wechaty.emit('room-join', room, inviteeList, self, date)
+      room.emit('join', inviteeList, self, date)
+    }
+    if (leaverList.length) {
+      log.verbose('RoomRoster', 'reconcile() %s synthetic leave: %s', room, leaverList.join(','))
+      this.wechaty.emit('room-leave', room, leaverList, self, date)
+      room.emit('leave', leaverList, self, date)
+    }
+  }
+
+  /**
+   * Reconcile all the rooms of the bot, one by one.
+   */
+  public async reconcileAll (): Promise<void> {
+    log.verbose('RoomRoster', 'reconcileAll()')
+
+    const roomList = await this.wechaty.Room.findAll()
+    for (const room of roomList) {
+      try {
+        await this.reconcile(room)
+      } catch (e) {
+        log.warn('RoomRoster', 'reconcileAll() reconcile(%s) rejection: %s', room, e && e.message)
+      }
+    }
+  }
+
+  /**
+   * The member changes of the room, from the oldest to the latest.
+   */
+  public async history (room: Room): Promise<RoomRosterEvent[]> {
+    log.verbose('RoomRoster', 'history(%s)', room)
+
+    const record = await this.memory.get<RoomRosterRecord>(room.id)
+    return record ? record.history : []
+  }
+
+}
@@ -0,0 +1,136 @@
+#!/usr/bin/env ts-node
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+// tslint:disable:no-shadowed-variable
+import test  from 'blue-tape'
+import sinon from 'sinon'
+
+import { MemoryCard } from 'memory-card'
+import {
+  ContactPayload,
+  MessagePayload,
+  MessageType,
+  RoomPayload,
+}                     from 'wechaty-puppet'
+import { PuppetMock } from 'wechaty-puppet-mock'
+
+import { RoomStats }  from './room-stats'
+import { Wechaty }    from './wechaty'
+
+test('room.stats()', async t => {
+  const sandbox = sinon.createSandbox()
+
+  const memory  = new MemoryCard()
+  const puppet  = new PuppetMock()
+  const wechaty = new Wechaty({
+    memory,
+    puppet,
+    roomStats: true,
+  })
+  await wechaty.start()
+
+  const now     = Math.floor(Date.now() / 1000)
+  const daysAgo = (days: number) => now - days * 24 * 60 * 60
+
+  const MESSAGE_PAYLOAD_LIST = [
+    { fromId: 'c1', id: 'm1', roomId: 'room1', text: 'old',    timestamp: daysAgo(3), type: MessageType.Text },
+    { fromId: 'c1', id: 'm2', roomId: 'room1', text: 'hello',  timestamp: now - 10,   type: MessageType.Text },
+    { fromId: 'c2', id: 'm3', roomId: 'room1', text: 'hi',     timestamp: now,        type: MessageType.Text },
+    { fromId: 'c2', id: 'm4', roomId: 'room1', text: '',       timestamp: now,        type: MessageType.Image },
+    { fromId: 'c2', id: 'm5', text: 'not in room',             timestamp: now,        type: MessageType.Text },
+  ] as MessagePayload[]
+
+  sandbox.stub(puppet, 'messagePayload').callsFake(async (id: string) => MESSAGE_PAYLOAD_LIST.filter(p => p.id === id)[0])
+  sandbox.stub(puppet, 'contactPayload').callsFake(async (id: string) => ({ id, name: id } as ContactPayload))
+  sandbox.stub(puppet, 'roomPayload').resolves({ id: 'room1', memberIdList: [], topic: 'topic' } as any as RoomPayload)
+  sandbox.stub(puppet, 'roomMemberList').resolves([])
+
+  const room = wechaty.Room.load('room1')
+  await room.ready()
+  const c3 = wechaty.Contact.load('c3')
+
+  for (const payload of MESSAGE_PAYLOAD_LIST) {
+    puppet.emit('message', payload.id)
+  }
+  wechaty.emit('room-join', room, [c3], wechaty.Contact.load('c1'), new Date())
+  await new Promise(resolve => setTimeout(resolve, 50))
+
+  const all = await room.stats()
+  t.equal(all.messageCount, 4, 'should count the messages in the room')
+  t.deepEqual(
+    all.memberList.map(member => [member.contact.id, member.messageCount]),
+    [['c2', 2], ['c1', 2]],
+    'should sort the members by the message count, then the last seen time',
+  )
+  t.deepEqual(all.memberList[0].typeCount, { Image: 1, Text: 1 }, 'should count the message types')
+  t.equal(all.memberList[1].firstSeen.getTime(), daysAgo(3) * 1000, 'should record the first seen time')
+  t.deepEqual(all.eventList.map(event => [event.type, event.contact.id]), [['join', 'c3']], 'should record the join history')
+
+  const recent = await room.stats({ limit: 1, since: new Date((now - 60 * 60) * 1000) })
+  t.equal(recent.messageCount, 3, 'should only count the messages since the date')
+  t.deepEqual(recent.memberList.map(member => member.contact.id), ['c2'], 'should limit the leaderboard')
+
+  const top = await room.stats({ limit: 1 })
+  t.equal(top.messageCount, 4, 'should count the messages of all the members when the leaderboard is limited')
+
+  await wechaty.stop()
+
+  const restored = new RoomStats(wechaty, memory.multiplex('room-stats'))
+  const report   = await restored.report(room)
+  t.equal(report.messageCount, 4, 'should persist the stats in the memory')
+
+  sandbox.restore()
+})
+
+test('RoomStats prune the expired message counts of the whole room', async t => {
+  const sandbox = sinon.createSandbox()
+  const clock   = sandbox.useFakeTimers({ now: Date.now(), toFake: ['Date'] })
+
+  const puppet  = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+  await wechaty.start()
+
+  sandbox.stub(puppet, 'contactPayload').callsFake(async (id: string) => ({ id, name: id } as ContactPayload))
+
+  const memory = new MemoryCard()
+  await memory.load()
+  const stats = new RoomStats(wechaty, memory, { retention: 1 })
+
+  const room    = { id: 'room1' } as any
+  const message = (contactId: string) => ({
+    date : () => new Date(),
+    from : () => wechaty.Contact.load(contactId),
+    room : () => room,
+    type : () => MessageType.Text,
+  }) as any
+
+  await stats.onMessage(message('c1'))
+  clock.tick(2 * 24 * 60 * 60 * 1000)
+  await stats.onMessage(message('c2'))
+  t.deepEqual(Object.keys((await memory.get<any>('room1')).memberDict), ['c2'], 'should prune the members who did not send the message')
+
+  clock.tick(2 * 24 * 60 * 60 * 1000)
+  const report = await stats.report(room)
+  t.equal(report.memberList.length, 0, 'should prune the room when reporting')
+  t.deepEqual((await memory.get<any>('room1')).memberDict, {}, 'should save the pruned record')
+
+  await stats.flush()
+  await wechaty.stop()
+  sandbox.restore()
+})
@@ -0,0 +1,341 @@
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+import {
+  MemoryCard,
+}                 from 'memory-card'
+import {
+  MessageType,
+}                 from 'wechaty-puppet'
+
+import {
+  log,
+}                 from './config'
+import {
+  Contact,
+  Message,
+  Room,
+}                 from './user'
+import {
+  Wechaty,
+}                 from './wechaty'
+
+export interface RoomStatsOptions {
+  /**
+   * Days to keep the message counts. Default: 90
+   */
+  retention?    : number,
+  /**
+   * Max number of the join/leave events kept for every room. Default: 1000
+   */
+  historyLimit? : number,
+}
+
+export interface RoomStatsQuery {
+  /**
+   * Only count the messages and events since this date.
+   * The messages are counted by hours, so the precision is one hour.
+   */
+  since? : Date,
+  /**
+   * Only return the top members of the leaderboard
+   */
+  limit? : number,
+}
+
+export interface RoomMemberStats {
+  contact      : Contact,
+  messageCount : number,
+  /**
+   * The message counts by the names of `MessageType`, like `{ Text: 10, Image: 2 }`
+   */
+  typeCount    : { [typeName: string]: number },
+  /**
+   * The time of the first and the last message ever seen, ignoring the `since`
+   */
+  firstSeen    : Date,
+  lastSeen     : Date,
+}
+
+export interface RoomStatsEvent {
+  type      : 'join' | 'leave',
+  contact   : Contact,
+  date      : Date,
+}
+
+export interface RoomStatsReport {
+  room         : Room,
+  since?       : Date,
+  messageCount : number,
+  /**
+   * The leaderboard: sorted by the message count descending
+   */
+  memberList   : RoomMemberStats[],
+  /**
+   * The join/leave events, from the oldest to the latest
+   */
+  eventList    : RoomStatsEvent[],
+}
+
+interface RoomMemberStatsRecord {
+  firstSeen  : number,
+  lastSeen   : number,
+  /**
+   * Hour (since epoch) => message type => count
+   */
+  hourDict   : { [hour: string]: { [type: string]: number } },
+}
+
+interface RoomStatsRecord {
+  memberDict : { [contactId: string]: RoomMemberStatsRecord },
+  history    : Array<{ type: 'join' | 'leave', contactId: string, timestamp: number }>,
+}
+
+const HOUR = 60 * 60 * 1000
+
+const DEFAULT_RETENTION     = 90
+const DEFAULT_HISTORY_LIMIT = 1000
+
+/**
+ * Save the records to the memory at most once in this milliseconds
+ */
+const SAVE_DELAY = 5 * 1000
+
+/**
+ * Count the messages of every member in the rooms, and record the join/leave history,
+ * by the `message`, `room-join` and `room-leave` events of the bot.
+ *
+ * The stats are saved in the memory of the bot.
+ */
+export class RoomStats {
+
+  private readonly retention    : number
+  private readonly historyLimit : number
+
+  private readonly recordDict : { [roomId: string]: Promise<RoomStatsRecord> }
+  private saveTimer?          : NodeJS.Timer
+
+  /**
+   * The hour when the room had been pruned last time, the rooms will be pruned at most once an hour by `onMessage()`
+   */
+  private readonly prunedHourDict : { [roomId: string]: number }
+
+  constructor (
+    private readonly wechaty : Wechaty,
+    private readonly memory  : MemoryCard,
+    options                  : RoomStatsOptions = {},
+  ) {
+    log.verbose('RoomStats', 'constructor(%s, %s, %s)', wechaty, memory, JSON.stringify(options))
+
+    this.retention    = options.retention    || DEFAULT_RETENTION
+    this.historyLimit = options.historyLimit || DEFAULT_HISTORY_LIMIT
+    this.recordDict   = {}
+
+    this.prunedHourDict = {}
+  }
+
+  public async onMessage (message: Message): Promise<void> {
+    const room = message.room()
+    const from = message.from()
+    if (!room || !from) {
+      return
+    }
+    log.silly('RoomStats', 'onMessage(%s)', message)
+
+    const record    = await this.record(room.id)
+    const timestamp = message.date().getTime()
+
+    const member = record.memberDict[from.id] || {
+      firstSeen : timestamp,
+      hourDict  : {},
+      lastSeen  : timestamp,
+    }
+    member.firstSeen = Math.min(member.firstSeen, timestamp)
+    member.lastSeen  = Math.max(member.lastSeen, timestamp)
+
+    const hour     = String(Math.floor(timestamp / HOUR))
+    const typeDict = member.hourDict[hour] || (member.hourDict[hour] = {})
+    typeDict[message.type()] = (typeDict[message.type()] || 0) + 1
+
+    record.memberDict[from.id] = member
+
+    const nowHour = Math.floor(Date.now() / HOUR)
+    if (this.prunedHourDict[room.id] !== nowHour) {
+      this.prunedHourDict[room.id] = nowHour
+      this.prune(record)
+    }
+
+    await this.update(room.id, record)
+  }
+
+  public async onMembership (
+    type        : 'join' | 'leave',
+    room        : Room,
+    contactList : Contact[],
+    date        : Date = new Date(),
+  ): Promise<void> {
+    log.verbose('RoomStats', 'onMembership(%s, %s, %s)', type, room, contactList.join(','))
+
+    const record = await this.record(room.id)
+    record.history.push(...contactList.map(contact => ({
+      contactId : contact.id,
+      timestamp : date.getTime(),
+      type,
+    })))
+    record.history = record.history.slice(-this.historyLimit)
+
+    await this.update(room.id, record)
+  }
+
+  public async report (
+    room  : Room,
+    query : RoomStatsQuery = {},
+  ): Promise<RoomStatsReport> {
+    log.verbose('RoomStats', 'report(%s, %s)', room, JSON.stringify(query))
+
+    const record    = await this.record(room.id)
+    if (this.prune(record)) {
+      await this.update(room.id, record)
+    }
+
+    const sinceTime = query.since ? query.since.getTime() : 0
+    const sinceHour = Math.floor(sinceTime / HOUR)
+
+    let memberList: RoomMemberStats[] = Object.keys(record.memberDict).map(contactId => {
+      const member    = record.memberDict[contactId]
+      const typeCount: { [typeName: string]: number } = {}
+      let messageCount = 0
+
+      for (const hour of Object.keys(member.hourDict)) {
+        if (Number(hour) < sinceHour) {
+          continue
+        }
+        const typeDict = member.hourDict[hour]
+        for (const type of Object.keys(typeDict)) {
+          const typeName = MessageType[Number(type)]
+          typeCount[typeName] = (typeCount[typeName] || 0) + typeDict[type]
+          messageCount += typeDict[type]
+        }
+      }
+
+      return {
+        contact   : this.wechaty.Contact.load(contactId),
+        firstSeen : new Date(member.firstSeen),
+        lastSeen  : new Date(member.lastSeen),
+        messageCount,
+        typeCount,
+      }
+    }).filter(member => member.messageCount > 0)
+
+    // the total of the room, before the leaderboard is limited
+    const messageCount = memberList.reduce((sum, member) => sum + member.messageCount, 0)
+
+    memberList.sort((a, b) => (b.messageCount - a.messageCount) || (b.lastSeen.getTime() - a.lastSeen.getTime()))
+    if (query.limit) {
+      memberList = memberList.slice(0, query.limit)
+    }
+
+    const eventList: RoomStatsEvent[] = record.history
+      .filter(event => event.timestamp >= sinceTime)
+      .map(event => ({
+        contact : this.wechaty.Contact.load(event.contactId),
+        date    : new Date(event.timestamp),
+        type    : event.type,
+      }))
+
+    await Promise.all([
+      ...memberList.map(member => member.contact.ready()),
+      ...eventList.map(event => event.contact.ready()),
+    ].map(future => future.catch(e => log.warn('RoomStats', 'report() contact.ready() rejection: %s', e))))
+
+    return {
+      eventList,
+      memberList,
+      messageCount,
+      room,
+      since: query.since,
+    }
+  }
+
+  /**
+   * Save the pending changes to the memory right now.
+   */
+  public async flush (): Promise<void> {
+    log.verbose('RoomStats', 'flush()')
+
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer)
+      this.saveTimer = undefined
+      await this.memory.save()
+    }
+  }
+
+  /**
+   * Remove the message counts older than the retention of all the members in the room,
+   * and the members who have no message count left.
+   *
+   * @returns {boolean} - `true` if anything had been removed
+   */
+  private prune (record: RoomStatsRecord): boolean {
+    const expired = Math.floor((Date.now() - this.retention * 24 * HOUR) / HOUR)
+    let pruned = false
+
+    for (const contactId of Object.keys(record.memberDict)) {
+      const member = record.memberDict[contactId]
+      for (const hour of Object.keys(member.hourDict)) {
+        if (Number(hour) < expired) {
+          delete member.hourDict[hour]
+          pruned = true
+        }
+      }
+      if (Object.keys(member.hourDict).length === 0) {
+        delete record.memberDict[contactId]
+        pruned = true
+      }
+    }
+
+    return pruned
+  }
+
+  /**
+   * Load the record once, and keep it in the memory, so the concurrent updates will not overwrite each other.
+   */
+  private async record (roomId: string): Promise<RoomStatsRecord> {
+    if (!(roomId in this.recordDict)) {
+      this.recordDict[roomId] = this.memory.get<RoomStatsRecord>(roomId)
+        .then(record => record || { history: [], memberDict: {} })
+    }
+    return this.recordDict[roomId]
+  }
+
+  private async update (
+    roomId : string,
+    record : RoomStatsRecord,
+  ): Promise<void> {
+    await this.memory.set<RoomStatsRecord>(roomId, record)
+
+    if (!this.saveTimer) {
+      this.saveTimer = setTimeout(() => {
+        this.saveTimer = undefined
+        this.memory.save()
+          .catch(e => log.error('RoomStats', 'update() memory.save() rejection: %s', e))
+      }, SAVE_DELAY)
+    }
+  }
+
+}
@@ -0,0 +1,139 @@
+#!/usr/bin/env ts-node
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+// tslint:disable:no-shadowed-variable
+import test  from 'blue-tape'
+import sinon from 'sinon'
+
+import { FileBox }    from 'file-box'
+import { MemoryCard } from 'memory-card'
+import {
+  ContactPayload,
+}                     from 'wechaty-puppet'
+import { PuppetMock } from 'wechaty-puppet-mock'
+
+import { Scheduler }  from './scheduler'
+import { Wechaty }    from './wechaty'
+
+test('jobs are persisted in the memory', async t => {
+  const wechaty = new Wechaty({ puppet: new PuppetMock() })
+  await wechaty.start()
+
+  const memory  = new MemoryCard()
+  await memory.load()
+
+  const scheduler = new Scheduler(wechaty, memory)
+
+  const room    = wechaty.Room.load('room1')
+  const contact = wechaty.Contact.load('contact1')
+
+  const cronId = await scheduler.add('0 9 * * *', room, 'good morning')
+  const dateId = await scheduler.add(new Date(Date.now() + 60 * 1000), contact, FileBox.fromBase64('aGVsbG8=', 'hello.txt'))
+
+  try {
+    await scheduler.add('not a cron', room, 'hi')
+    t.fail('should reject')
+  } catch (e) {
+    t.pass('should reject for invalid cron expression')
+  }
+
+  const restartedScheduler = new Scheduler(wechaty, memory)
+  const jobList = await restartedScheduler.list()
+
+  t.equal(jobList.length, 2, 'should load the jobs from the memory')
+  const cronJob = jobList.find(job => job.id === cronId)!
+  t.equal(cronJob.when, '0 9 * * *', 'should keep the cron expression')
+  t.equal(cronJob.target, room, 'should keep the room target')
+  t.equal(cronJob.next.getHours(), 9, 'should get the next date of the cron job')
+
+  t.true(await restartedScheduler.remove(dateId), 'should remove the job')
+  t.false(await restartedScheduler.remove(dateId), 'should return false for the removed job')
+  t.equal((await restartedScheduler.list()).length, 1, 'should have one job left')
+
+  await wechaty.stop()
+})
+
+test('schedule() sends after login', async t => {
+  const puppet  = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+
+  const sandbox = sinon.createSandbox()
+  sandbox.stub(puppet, 'contactPayload').callsFake(async (id: string) => ({ id, name: id } as ContactPayload))
+  const sendStub = sandbox.stub(puppet, 'messageSendText').resolves()
+
+  await wechaty.start() // PuppetMock will login after start
+  await new Promise(resolve => setImmediate(resolve))
+
+  const contact = wechaty.Contact.load('contact1')
+  await wechaty.schedule(new Date(Date.now() + 10), contact, 'now')
+  await new Promise(resolve => setTimeout(resolve, 30))
+
+  t.true(sendStub.calledOnce, 'should send when the time is up')
+  t.equal(sendStub.firstCall.args[1], 'now', 'should send the content')
+
+  puppet.emit('logout', 'logined_user_id')
+  await new Promise(resolve => setImmediate(resolve))
+
+  await wechaty.schedule(new Date(Date.now() + 10), contact, 'missed')
+  await new Promise(resolve => setTimeout(resolve, 30))
+  t.true(sendStub.calledOnce, 'should not send after logout')
+
+  puppet.emit('login', 'logined_user_id')
+  await new Promise(resolve => setTimeout(resolve, 30))
+
+  t.true(sendStub.calledTwice, 'should send the missed job after login')
+  t.equal(sendStub.secondCall.args[1], 'missed', 'should send the missed content')
+  t.equal((await wechaty.scheduleList()).length, 0, 'should remove the one-time jobs after sent')
+
+  await wechaty.stop()
+  sandbox.restore()
+})
+
+test('schedule() keep the one-time job which failed to be sent', async t => {
+  const puppet  = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+
+  const sandbox = sinon.createSandbox()
+  sandbox.stub(puppet, 'contactPayload').callsFake(async (id: string) => ({ id, name: id } as ContactPayload))
+  const sendStub = sandbox.stub(puppet, 'messageSendText').rejects(new Error('send error'))
+
+  await wechaty.start()
+  await new Promise(resolve => setImmediate(resolve))
+
+  const errorSpy = sinon.spy()
+  wechaty.on('error', errorSpy)
+
+  const contact = wechaty.Contact.load('contact1')
+  await wechaty.schedule(new Date(Date.now() + 10), contact, 'retry')
+  await new Promise(resolve => setTimeout(resolve, 30))
+
+  t.true(errorSpy.calledOnce, 'should emit the error of sending')
+  t.equal((await wechaty.scheduleList()).length, 1, 'should keep the job after failed')
+
+  sendStub.resolves()
+  puppet.emit('logout', 'logined_user_id')
+  puppet.emit('login', 'logined_user_id')
+  await new Promise(resolve => setTimeout(resolve, 30))
+
+  t.equal(sendStub.lastCall.args[1], 'retry', 'should send the job again after login')
+  t.equal((await wechaty.scheduleList()).length, 0, 'should remove the job after sent')
+
+  await wechaty.stop()
+  sandbox.restore()
+})
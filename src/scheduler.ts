@@ -0,0 +1,319 @@
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+import cuid from 'cuid'
+
+import {
+  FileBox,
+}                 from 'file-box'
+import {
+  MemoryCard,
+}                 from 'memory-card'
+import {
+  MiniProgramPayload,
+  UrlLinkPayload,
+}                 from 'wechaty-puppet'
+
+import {
+  log,
+}                 from './config'
+import {
+  nextCronDate,
+  parseCron,
+}                 from './helper-functions'
+import {
+  Contact,
+  Message,
+  MiniProgram,
+  Room,
+  UrlLink,
+}                 from './user'
+import {
+  Wechaty,
+}                 from './wechaty'
+
+export type ScheduleContent = string
+                            | Contact
+                            | FileBox
+                            | MiniProgram
+                            | UrlLink
+
+type ScheduleContentRecord = { type: 'text',         text      : string }
+                           | { type: 'contact',      contactId : string }
+                           | { type: 'file',         name      : string, base64: string }
+                           | { type: 'url',          payload   : UrlLinkPayload }
+                           | { type: 'mini-program', payload   : MiniProgramPayload }
+
+interface ScheduleJobRecord {
+  id      : string,
+  cron?   : string, // for the repeated jobs
+  at?     : number, // for the one-time jobs
+  target  : { contactId: string } | { roomId: string },
+  content : ScheduleContentRecord,
+}
+
+export interface ScheduleJob {
+  id      : string,
+  /**
+   * The cron expression, or the date for the one-time job
+   */
+  when    : string | Date,
+  target  : Contact | Room,
+  /**
+   * The next time this job will be run
+   */
+  next    : Date,
+}
+
+/**
+ * Say the content to the contact or room, by the `say()` overload of its type.
+ */
+export async function sayContent (
+  target  : Contact | Room,
+  content : ScheduleContent,
+): Promise<void | Message> {
+  if (typeof content === 'string') {
+    return target.say(content)
+  } else if (content instanceof Contact) {
+    return target.say(content)
+  } else if (content instanceof UrlLink) {
+    return target.say(content)
+  } else if (content instanceof MiniProgram) {
+    return target.say(content)
+  }
+  return target.say(content)
+}
+
+/**
+ * `setTimeout()` can not wait longer than 2^31 - 1 milliseconds (about 24.8 days)
+ */
+const MAX_TIMEOUT = 2 ** 31 - 1
+
+/**
+ * Send messages at the specific time, the jobs are persisted in the memory of the bot.
+ *
+ * Jobs will only be run after the bot had logged in.
+ * The one-time jobs which had been missed (the bot was offline) will be run right after the next login,
+ * and so will the ones which had failed to be sent.
+ */
+export class Scheduler {
+
+  private readonly timerDict: { [id: string]: NodeJS.Timer }
+
+  private armed: boolean
+
+  constructor (
+    private readonly wechaty : Wechaty,
+    private readonly memory  : MemoryCard,
+  ) {
+    log.verbose('Scheduler', 'constructor(%s, %s)', wechaty, memory)
+
+    this.timerDict = {}
+    this.armed     = false
+  }
+
+  /**
+   * Add a job to send the content to the target at the specific time.
+   *
+   * @param when - a 5 fields cron expression like `0 9 * * 1-5`, or a Date for one time.
+   * @returns the job id
+   */
+  public async add (
+    when    : string | Date,
+    target  : Contact | Room,
+    content : ScheduleContent,
+  ): Promise<string> {
+    log.verbose('Scheduler', 'add(%s, %s, %s)', when, target, content)
+
+    const record: ScheduleJobRecord = {
+      content : await this.contentToRecord(content),
+      id      : cuid(),
+      target  : target instanceof Room
+        ? { roomId: target.id }
+        : { contactId: target.id },
+    }
+
+    if (typeof when === 'string') {
+      parseCron(when) // throw if the expression is invalid
+      record.cron = when
+    } else {
+      record.at = when.getTime()
+    }
+
+    await this.memory.set(record.id, record)
+    await this.memory.save()
+
+    if (this.armed) {
+      this.armJob(record)
+    }
+    return record.id
+  }
+
+  /**
+   * Remove the job.
+   *
+   * @returns `false` if the job does not exist.
+   */
+  public async remove (id: string): Promise<boolean> {
+    log.verbose('Scheduler', 'remove(%s)', id)
+
+    this.disarmJob(id)
+
+    if (!await this.memory.has(id)) {
+      return false
+    }
+    await this.memory.delete(id)
+    await this.memory.save()
+    return true
+  }
+
+  public async list (): Promise<ScheduleJob[]> {
+    log.verbose('Scheduler', 'list()')
+
+    const jobList: ScheduleJob[] = []
+    for await (const record of this.memory.values<ScheduleJobRecord>()) {
+      jobList.push({
+        id     : record.id,
+        next   : this.nextDate(record),
+        target : this.target(record),
+        when   : record.cron || new Date(record.at!),
+      })
+    }
+    return jobList
+  }
+
+  /**
+   * Arm all the jobs in the memory. Should be called after the bot logged in.
+   */
+  public async arm (): Promise<void> {
+    log.verbose('Scheduler', 'arm()')
+
+    this.armed = true
+    for await (const record of this.memory.values<ScheduleJobRecord>()) {
+      this.armJob(record)
+    }
+  }
+
+  /**
+   * Stop all the timers, the jobs are still kept in the memory.
+   */
+  public disarm (): void {
+    log.verbose('Scheduler', 'disarm()')
+
+    this.armed = false
+    for (const id of Object.keys(this.timerDict)) {
+      this.disarmJob(id)
+    }
+  }
+
+  private armJob (record: ScheduleJobRecord): void {
+    this.disarmJob(record.id)
+
+    const delay = Math.max(0, this.nextDate(record).getTime() - Date.now())
+    log.verbose('Scheduler', 'armJob(%s) in %s ms', record.id, delay)
+
+    this.timerDict[record.id] = setTimeout(() => {
+      delete this.timerDict[record.id]
+      if (delay > MAX_TIMEOUT) {
+        this.armJob(record)
+        return
+      }
+      this.run(record)
+        .catch(e => log.error('Scheduler', 'armJob() run() rejection: %s', e))
+    }, Math.min(delay, MAX_TIMEOUT))
+  }
+
+  private disarmJob (id: string): void {
+    const timer = this.timerDict[id]
+    if (timer) {
+      clearTimeout(timer)
+      delete this.timerDict[id]
+    }
+  }
+
+  private async run (record: ScheduleJobRecord): Promise<void> {
+    log.verbose('Scheduler', 'run(%s)', record.id)
+
+    if (record.cron) {
+      this.armJob(record)
+    }
+
+    try {
+      const target  = this.target(record)
+      const content = this.recordToContent(record.content)
+      await sayContent(target, content)
+    } catch (e) {
+      log.warn('Scheduler', 'run(%s) exception: %s', record.id, e && e.message)
+      this.wechaty.emit('error', e)
+      /**
+       * Keep the failed one-time job in the memory, it will be run again after the next login.
+       */
+      return
+    }
+
+    if (!record.cron) {
+      await this.memory.delete(record.id)
+      await this.memory.save()
+    }
+  }
+
+  private nextDate (record: ScheduleJobRecord): Date {
+    if (record.cron) {
+      return nextCronDate(record.cron)
+    }
+    return new Date(record.at!)
+  }
+
+  private target (record: ScheduleJobRecord): Contact | Room {
+    if ('roomId' in record.target) {
+      return this.wechaty.Room.load(record.target.roomId)
+    }
+    return this.wechaty.Contact.load(record.target.contactId)
+  }
+
+  private async contentToRecord (content: ScheduleContent): Promise<ScheduleContentRecord> {
+    if (typeof content === 'string') {
+      return { text: content, type: 'text' }
+    } else if (content instanceof Contact) {
+      return { contactId: content.id, type: 'contact' }
+    } else if (content instanceof FileBox) {
+      return { base64: await content.toBase64(), name: content.name, type: 'file' }
+    } else if (content instanceof UrlLink) {
+      return { payload: content.payload, type: 'url' }
+    } else if (content instanceof MiniProgram) {
+      return { payload: content.payload, type: 'mini-program' }
+    }
+    throw new Error('unsupported content: ' + content)
+  }
+
+  private recordToContent (record: ScheduleContentRecord): ScheduleContent {
+    switch (record.type) {
+      case 'text':
+        return record.text
+      case 'contact':
+        return this.wechaty.Contact.load(record.contactId)
+      case 'file':
+        return FileBox.fromBase64(record.base64, record.name)
+      case 'url':
+        return new UrlLink(record.payload)
+      case 'mini-program':
+        return new MiniProgram(record.payload)
+    }
+  }
+
+}
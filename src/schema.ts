@@ -0,0 +1,68 @@
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+
+/**
+ * The version of the JSON documents produced by `toJSON()`.
+ *
+ * Increase it when a field is removed or its meaning is changed,
+ * `fromJSON()` will reject the documents with a newer version.
+ *
+ * Version 1:
+ *  - `schema`  : 'Contact' | 'Friendship' | 'Message' | 'Room'
+ *  - `version` : 1
+ *  - `id`      : the id which can be used by `load(id)`
+ *  - `payload` : the payload of wechaty-puppet (`ContactPayload`, `FriendshipPayload`, `MessagePayload`, `RoomPayload`),
+ *                `undefined` if the instance was not ready.
+ */
+export const SCHEMA_VERSION = 1
+
+export type SchemaName = 'Contact'
+                       | 'Friendship'
+                       | 'Message'
+                       | 'Room'
+
+export interface SchemaJson<N extends SchemaName, P> {
+  schema   : N,
+  version  : number,
+  id       : string,
+  payload? : P,
+}
+
+/**
+ * Parse and validate the JSON document (or its string) for `fromJSON()`
+ */
+export function parseSchemaJson<N extends SchemaName, P> (
+  schema : N,
+  json   : string | SchemaJson<N, P>,
+): SchemaJson<N, P> {
+  const doc: SchemaJson<N, P> = typeof json === 'string'
+    ? JSON.parse(json)
+    : json
+
+  if (!doc || doc.schema !== schema) {
+    throw new Error(`expect the schema of ${schema}, but got ${doc && doc.schema}`)
+  }
+  if (typeof doc.version !== 'number' || doc.version > SCHEMA_VERSION) {
+    throw new Error(`unsupported ${schema} schema version: ${doc.version}`)
+  }
+  if (!doc.id || typeof doc.id !== 'string') {
+    throw new Error(`no id in the ${schema} json`)
+  }
+  return doc
+}
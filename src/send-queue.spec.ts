@@ -0,0 +1,190 @@
+#!/usr/bin/env ts-node
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+// tslint:disable:no-shadowed-variable
+import test  from 'blue-tape'
+import sinon from 'sinon'
+
+import { PuppetMock } from 'wechaty-puppet-mock'
+
+import {
+  SendPriority,
+  SendQueue,
+}                     from './send-queue'
+import { Wechaty }    from './wechaty'
+
+const INTERVAL = 50
+
+test('pass-through without limits', async t => {
+  const queue = new SendQueue()
+  const conversation = { id: 'c1' } as any
+
+  const enqueueSpy = sinon.spy()
+  const sentSpy    = sinon.spy()
+  queue.on('enqueue', enqueueSpy)
+  queue.on('sent',    sentSpy)
+
+  t.false(queue.enabled(), 'should be disabled by default')
+
+  const result = await queue.push(conversation, 'hello', async () => 'id')
+  t.equal(result, 'id', 'should resolve with the result of send()')
+  t.true(enqueueSpy.calledOnce, 'should emit enqueue')
+  t.equal(sentSpy.firstCall.args[0].content, 'hello', 'should emit sent with the task')
+})
+
+test('conversation rate limit', async t => {
+  const queue = new SendQueue({
+    conversation: { interval: INTERVAL, limit: 1 },
+  })
+  const c1 = { id: 'c1' } as any
+  const c2 = { id: 'c2' } as any
+
+  const throttleSpy = sinon.spy()
+  queue.on('throttle', throttleSpy)
+
+  const sentList: Array<[string, number]> = []
+  const send = (name: string) => async () => { sentList.push([name, Date.now()]) }
+
+  const start = Date.now()
+  await Promise.all([
+    queue.push(c1, 'a', send('c1-a')),
+    queue.push(c1, 'b', send('c1-b')),
+    queue.push(c2, 'c', send('c2-c')),
+  ])
+
+  t.deepEqual(sentList.map(s => s[0]), ['c1-a', 'c2-c', 'c1-b'], 'should not wait for the other conversation')
+  t.true(sentList[2][1] - start >= INTERVAL - 5, 'should throttle the same conversation')
+  t.true(throttleSpy.called, 'should emit throttle')
+})
+
+test('priority lanes', async t => {
+  const queue = new SendQueue({
+    global   : { interval: INTERVAL, limit: 1 },
+    priority : (_, content) => content === 'urgent' ? SendPriority.High : SendPriority.Low,
+  })
+  const conversation = { id: 'c1' } as any
+
+  const sentList: string[] = []
+  const send = (text: string) => queue.push(conversation, text, async () => { sentList.push(text) })
+
+  await Promise.all([
+    send('first'),
+    send('later'),
+    send('urgent'),
+  ])
+  t.deepEqual(sentList, ['first', 'urgent', 'later'], 'should send the high priority message first')
+})
+
+test('throttle once per message, and prune the logs of the conversations', async t => {
+  const queue = new SendQueue({
+    conversation: { interval: INTERVAL, limit: 1 },
+  })
+  const c1 = { id: 'c1' } as any
+
+  const throttleSpy = sinon.spy()
+  queue.on('throttle', throttleSpy)
+
+  const send = async () => undefined
+  const futureList = [
+    queue.push(c1, 'a', send),
+    queue.push(c1, 'b', send),
+  ]
+  // wake up the queue while the message 'b' is being throttled
+  await new Promise(resolve => setTimeout(resolve, 10))
+  futureList.push(queue.push(c1, 'c', send))
+  await Promise.all(futureList)
+
+  t.deepEqual(throttleSpy.getCalls().map(call => call.args[0].content), ['b', 'c'], 'should emit throttle once for every throttled message')
+
+  await new Promise(resolve => setTimeout(resolve, INTERVAL + 10))
+  await queue.push({ id: 'c2' } as any, 'd', send)
+  t.deepEqual(Object.keys((queue as any).sentLogDict), ['c2'], 'should remove the conversations without recent messages')
+})
+
+test('validate the options', async t => {
+  t.throws(() => new SendQueue({ global: { interval: INTERVAL, limit: 0 } }), 'should throw for the limit less than 1')
+
+  const queue = new SendQueue({
+    global   : { interval: INTERVAL, limit: 1 },
+    priority : () => 3 as SendPriority,
+  })
+  try {
+    await queue.push({ id: 'c1' } as any, 'hello', async () => undefined)
+    t.fail('should reject')
+  } catch (e) {
+    t.true(/priority/.test(e.message), 'should reject the invalid priority')
+  }
+})
+
+test('clear()', async t => {
+  const queue = new SendQueue({
+    global: { interval: INTERVAL, limit: 1 },
+  })
+  const conversation = { id: 'c1' } as any
+
+  const failSpy = sinon.spy()
+  queue.on('fail', failSpy)
+
+  await queue.push(conversation, 'sent', async () => undefined)
+  const future = queue.push(conversation, 'pending', async () => undefined)
+  t.equal(queue.size(), 1, 'should have one message in queue')
+
+  queue.clear('stop')
+  try {
+    await future
+    t.fail('should reject')
+  } catch (e) {
+    t.equal(e.message, 'stop', 'should reject the pending message')
+  }
+  t.equal(queue.size(), 0, 'should be empty after clear')
+
+  try {
+    await queue.push(conversation, 'error', async () => { throw new Error('send error') })
+    t.fail('should reject')
+  } catch (e) {
+    t.true(failSpy.calledOnce, 'should emit fail when send() rejected')
+  }
+})
+
+test('say() through the send queue', async t => {
+  const puppet  = new PuppetMock()
+  const wechaty = new Wechaty({
+    puppet,
+    sendQueue: { conversation: { interval: INTERVAL, limit: 1 } },
+  })
+  await wechaty.start()
+
+  const sandbox  = sinon.createSandbox()
+  const sendStub = sandbox.stub(puppet, 'messageSendText').resolves()
+
+  const enqueueSpy = sinon.spy()
+  wechaty.sendQueue.on('enqueue', enqueueSpy)
+
+  const contact = wechaty.Contact.load('contact1')
+  const start = Date.now()
+  await contact.say('hello')
+  await contact.say('world')
+
+  t.true(sendStub.calledTwice, 'should send both messages')
+  t.true(Date.now() - start >= INTERVAL - 5, 'should be rate limited')
+  t.equal(enqueueSpy.firstCall.args[0].conversation, contact, 'should enqueue with the contact')
+
+  await wechaty.stop()
+  sandbox.restore()
+})
@@ -0,0 +1,386 @@
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+import { EventEmitter } from 'events'
+
+import {
+  log,
+}                 from './config'
+import {
+  Contact,
+  Room,
+}                 from './user'
+
+export enum SendPriority {
+  Low    = 0,
+  Normal = 1,
+  High   = 2,
+}
+
+/**
+ * At most `limit` messages can be sent in every `interval` milliseconds.
+ * The `limit` must be at least 1.
+ */
+export interface SendRateLimit {
+  limit    : number,
+  interval : number,
+}
+
+export interface SendTask {
+  /**
+   * The contact or room which the message will be sent to
+   */
+  conversation : Contact | Room,
+  /**
+   * The thing which had been passed to `say()`
+   */
+  content      : any,
+  priority     : SendPriority,
+  enqueueAt    : number,
+}
+
+export interface SendQueueOptions {
+  /**
+   * Rate limit for all the messages sent by the bot
+   */
+  global?       : SendRateLimit,
+  /**
+   * Rate limit for the messages sent to one contact or room
+   */
+  conversation? : SendRateLimit,
+  /**
+   * Wait a random delay up to `jitter` milliseconds before sending every message. Default: 0
+   */
+  jitter?       : number,
+  /**
+   * Decide the priority lane of the message. Default: `SendPriority.Normal` for all messages.
+   * The `say()` will be rejected if it returned a value which is not a `SendPriority`.
+   */
+  priority?     : (conversation: Contact | Room, content: any) => SendPriority,
+}
+
+export type SendQueueEventName = 'enqueue'
+                              | 'throttle'
+                              | 'sent'
+                              | 'fail'
+
+interface SendJob {
+  task       : SendTask,
+  send       : () => Promise<any>,
+  resolve    : (value?: any) => void,
+  reject     : (e: Error) => void,
+  /**
+   * The `throttle` event will only be emitted once for a job
+   */
+  throttled? : boolean,
+}
+
+/**
+ * The queue behind all the `say()` methods.
+ *
+ * The queue is a pass-through if neither rate limit nor jitter has been set.
+ * Otherwise, messages will be sent one by one, from the high priority lane to the low one,
+ * and every `say()` will be resolved after its message had been actually delivered.
+ *
+ * @example
+ * const bot = new Wechaty({
+ *   sendQueue: {
+ *     conversation : { interval: 1000, limit: 1 },
+ *     global       : { interval: 60 * 1000, limit: 20 },
+ *     jitter       : 500,
+ *   },
+ * })
+ * bot.sendQueue.on('throttle', (task, wait) => console.log(`${task.conversation} throttled for ${wait}ms`))
+ */
+export class SendQueue extends EventEmitter {
+
+  private readonly laneList    : SendJob[][]
+  private readonly globalLog   : number[]
+  private readonly sentLogDict : { [conversationId: string]: number[] }
+
+  private running : boolean
+  private timer?  : NodeJS.Timer
+  private wakeup? : () => void
+
+  constructor (
+    private readonly options: SendQueueOptions = {},
+  ) {
+    super()
+    log.verbose('SendQueue', 'constructor(%s)', JSON.stringify(options))
+
+    for (const limit of [options.global, options.conversation]) {
+      if (limit && !(limit.limit >= 1)) {
+        throw new Error('the limit of SendRateLimit must be at least 1, got: ' + limit.limit)
+      }
+    }
+
+    this.laneList = [
+      [], // SendPriority.Low
+      [], // SendPriority.Normal
+      [], // SendPriority.High
+    ]
+    this.globalLog   = []
+    this.sentLogDict = {}
+    this.running     = false
+  }
+
+  public emit (event: 'enqueue',  task: SendTask)               : boolean
+  public emit (event: 'throttle', task: SendTask, wait: number) : boolean
+  public emit (event: 'sent',     task: SendTask)               : boolean
+  public emit (event: 'fail',     task: SendTask, error: Error) : boolean
+  public emit (event: never, ...args: never[])                  : never
+
+  public emit (
+    event   : SendQueueEventName,
+    ...args : any[]
+  ): boolean {
+    return super.emit(event, ...args)
+  }
+
+  public on (event: 'enqueue',  listener: (task: SendTask) => void)               : this
+  public on (event: 'throttle', listener: (task: SendTask, wait: number) => void) : this
+  public on (event: 'sent',     listener: (task: SendTask) => void)               : this
+  public on (event: 'fail',     listener: (task: SendTask, error: Error) => void) : this
+  public on (event: never,      listener: never)                                  : never
+
+  public on (
+    event    : SendQueueEventName,
+    listener : (...args: any[]) => any,
+  ): this {
+    super.on(event, listener)
+    return this
+  }
+
+  /**
+   * Whether the messages will be queued, or be sent immediately.
+   */
+  public enabled (): boolean {
+    return !!(this.options.global || this.options.conversation || this.options.jitter)
+  }
+
+  /**
+   * Number of the messages waiting to be sent
+   */
+  public size (): number {
+    return this.laneList.reduce((sum, lane) => sum + lane.length, 0)
+  }
+
+  /**
+   * Put the `send` function to the queue.
+   *
+   * @returns {Promise} - resolved with the result of `send()` after it had been called.
+   */
+  public async push<T> (
+    conversation : Contact | Room,
+    content      : any,
+    send         : () => Promise<T>,
+  ): Promise<T> {
+    log.silly('SendQueue', 'push(%s, %s)', conversation, content)
+
+    const priority = this.options.priority
+      ? this.options.priority(conversation, content)
+      : SendPriority.Normal
+    if (typeof SendPriority[priority] !== 'string') {
+      throw new Error('invalid send priority: ' + priority)
+    }
+
+    const task: SendTask = {
+      content,
+      conversation,
+      enqueueAt : Date.now(),
+      priority,
+    }
+    this.emit('enqueue', task)
+
+    if (!this.enabled()) {
+      return this.run(task, send)
+    }
+
+    const future = new Promise<T>((resolve, reject) => {
+      this.laneList[task.priority].push({ reject, resolve, send, task })
+    })
+
+    if (this.wakeup) {
+      this.wakeup()
+    }
+    this.process().catch(e => log.error('SendQueue', 'push() process() rejection: %s', e))
+
+    return future
+  }
+
+  /**
+   * Reject all the messages waiting in the queue.
+   */
+  public clear (reason = 'send queue has been cleared'): void {
+    log.verbose('SendQueue', 'clear(%s)', reason)
+
+    for (const lane of this.laneList) {
+      for (const job of lane.splice(0)) {
+        job.reject(new Error(reason))
+      }
+    }
+    if (this.wakeup) {
+      this.wakeup()
+    }
+  }
+
+  private async process (): Promise<void> {
+    if (this.running) {
+      return
+    }
+    this.running = true
+
+    try {
+      while (this.size() > 0) {
+        const [job, wait] = this.next()
+
+        if (!job) {
+          await this.sleep(wait)
+          continue
+        }
+
+        if (this.options.jitter) {
+          const jitter = Math.floor(Math.random() * this.options.jitter)
+          await new Promise(resolve => setTimeout(resolve, jitter))
+        }
+
+        const now = Date.now()
+        this.globalLog.push(now)
+        this.sentLog(job.task.conversation).push(now)
+
+        try {
+          job.resolve(await this.run(job.task, job.send))
+        } catch (e) {
+          job.reject(e)
+        }
+      }
+    } finally {
+      this.running = false
+    }
+  }
+
+  /**
+   * Take the first job which is not throttled, from the highest priority lane.
+   * Return the milliseconds to wait if all the jobs are throttled.
+   */
+  private next (): [undefined | SendJob, number] {
+    const now = Date.now()
+    const globalWait = this.wait(this.globalLog, this.options.global, now)
+    this.prune(now)
+
+    let minWait = Infinity
+    for (const lane of [...this.laneList].reverse()) {
+      for (let i = 0; i < lane.length; i++) {
+        const job = lane[i]
+        const wait = Math.max(
+          globalWait,
+          this.wait(this.sentLogDict[job.task.conversation.id] || [], this.options.conversation, now),
+        )
+        if (wait <= 0) {
+          lane.splice(i, 1)
+          return [job, 0]
+        }
+        if (wait < minWait) {
+          minWait = wait
+        }
+        if (!job.throttled) {
+          job.throttled = true
+          this.emit('throttle', job.task, wait)
+        }
+      }
+    }
+    return [undefined, minWait]
+  }
+
+  private async run<T> (
+    task : SendTask,
+    send : () => Promise<T>,
+  ): Promise<T> {
+    try {
+      const result = await send()
+      this.emit('sent', task)
+      return result
+    } catch (e) {
+      log.warn('SendQueue', 'run() send to %s rejection: %s', task.conversation, e && e.message)
+      this.emit('fail', task, e)
+      throw e
+    }
+  }
+
+  private sentLog (conversation: Contact | Room): number[] {
+    if (!this.sentLogDict[conversation.id]) {
+      this.sentLogDict[conversation.id] = []
+    }
+    return this.sentLogDict[conversation.id]
+  }
+
+  /**
+   * Remove the time records older than the interval from the logs of all the conversations,
+   * and the conversations which have no record left.
+   */
+  private prune (now: number): void {
+    for (const conversationId of Object.keys(this.sentLogDict)) {
+      const sentLog = this.sentLogDict[conversationId]
+      this.wait(sentLog, this.options.conversation, now)
+      if (sentLog.length === 0) {
+        delete this.sentLogDict[conversationId]
+      }
+    }
+  }
+
+  /**
+   * Milliseconds to wait before the next message can be sent under the rate limit.
+   * The time records older than the interval will be removed from the log.
+   */
+  private wait (
+    sentLog : number[],
+    limit   : undefined | SendRateLimit,
+    now     : number,
+  ): number {
+    if (!limit) {
+      sentLog.length = 0
+      return 0
+    }
+    while (sentLog.length && sentLog[0] <= now - limit.interval) {
+      sentLog.shift()
+    }
+    if (sentLog.length < limit.limit) {
+      return 0
+    }
+    return sentLog[sentLog.length - limit.limit] + limit.interval - now
+  }
+
+  /**
+   * Sleep for the throttled milliseconds, can be waken up earlier by `push()` and `clear()`
+   */
+  private sleep (ms: number): Promise<void> {
+    return new Promise<void>(resolve => {
+      const done = () => {
+        if (this.timer) {
+          clearTimeout(this.timer)
+          this.timer = undefined
+        }
+        this.wakeup = undefined
+        resolve()
+      }
+      this.wakeup = done
+      this.timer  = setTimeout(done, ms)
+    })
+  }
+
+}
@@ -0,0 +1,75 @@
+#!/usr/bin/env ts-node
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+// tslint:disable:no-shadowed-variable
+import test  from 'blue-tape'
+import sinon from 'sinon'
+
+import { MemoryCard }     from 'memory-card'
+
+import { SessionManager } from './session'
+
+test('SessionManager load() & save()', async t => {
+  const memory = new MemoryCard()
+  await memory.load()
+
+  const manager = new SessionManager(memory.multiplex('session'))
+
+  const contact = { id: 'contact' } as any
+  const room    = { id: 'room' } as any
+
+  const session = await manager.load(contact)
+  t.deepEqual(session.data, {}, 'should get an empty session at the beginning')
+
+  session.data.step = 1
+  await session.save()
+
+  t.deepEqual((await manager.load(contact)).data, { step: 1 }, 'should load the saved session')
+  t.deepEqual((await manager.load(contact, room)).data, {}, 'should get another session in room')
+
+  await session.destroy()
+  t.deepEqual((await manager.load(contact)).data, {}, 'should get an empty session after destroy')
+})
+
+test('SessionManager ttl', async t => {
+  const sandbox = sinon.createSandbox()
+  const clock   = sandbox.useFakeTimers(Date.now())
+
+  const memory = new MemoryCard()
+  await memory.load()
+  const sessionMemory = memory.multiplex('session')
+
+  const manager = new SessionManager(sessionMemory, { ttl: 1000 })
+  const contact = { id: 'contact' } as any
+
+  const session = await manager.load(contact)
+  session.data.step = 1
+  await session.save()
+
+  clock.tick(999)
+  t.deepEqual((await manager.load(contact)).data, { step: 1 }, 'should load the session before expired')
+
+  clock.tick(2)
+  t.deepEqual((await manager.load(contact)).data, {}, 'should get an empty session after expired')
+
+  await manager.prune()
+  t.equal(await sessionMemory.size, 0, 'should delete expired session by prune()')
+
+  sandbox.restore()
+})
@@ -0,0 +1,182 @@
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+import {
+  MemoryCard,
+}                 from 'memory-card'
+
+import {
+  log,
+}                 from './config'
+import {
+  Contact,
+  Room,
+}                 from './user'
+
+export interface SessionManagerOptions {
+  /**
+   * Milliseconds of a session to live after it was saved last time.
+   * Set to `0` for never expire. Default: 30 minutes
+   */
+  ttl?: number,
+}
+
+interface SessionRecord {
+  data     : object,
+  expireAt : number,  // 0 for never expire
+}
+
+const DEFAULT_SESSION_TTL = 30 * 60 * 1000
+
+/**
+ * The state of a conversation, with a contact in a 1:1 chat, or with a contact in a room.
+ *
+ * Change the `data` and call `save()` to persist it to the memory of the bot.
+ *
+ * @example
+ * bot.on('message', async message => {
+ *   const session = await message.session<{ step?: number }>()
+ *   session.data.step = (session.data.step || 0) + 1
+ *   await session.save()
+ * })
+ */
+export class Session<T extends object = any> {
+
+  constructor (
+    private readonly manager : SessionManager,
+    public  readonly key     : string,
+    public           data    : T,
+  ) {
+    log.silly('Session', 'constructor(%s)', key)
+  }
+
+  public toString () {
+    return `Session<${this.key}>`
+  }
+
+  /**
+   * Save the data of the session, and renew its ttl.
+   */
+  public async save (): Promise<void> {
+    log.verbose('Session', 'save() %s', this.key)
+    await this.manager.save(this)
+  }
+
+  /**
+   * Destroy the session, the next load will get a new empty one.
+   */
+  public async destroy (): Promise<void> {
+    log.verbose('Session', 'destroy() %s', this.key)
+    this.data = {} as T
+    await this.manager.destroy(this)
+  }
+
+}
+
+export class SessionManager {
+
+  private readonly ttl: number
+
+  constructor (
+    private readonly memory  : MemoryCard,
+    options                  : SessionManagerOptions = {},
+  ) {
+    log.verbose('SessionManager', 'constructor(%s, %s)', memory, JSON.stringify(options))
+
+    this.ttl = options.ttl === undefined
+      ? DEFAULT_SESSION_TTL
+      : options.ttl
+  }
+
+  public key (
+    contact : Contact,
+    room?   : null | Room,
+  ): string {
+    return JSON.stringify([
+      contact.id,
+      (room && room.id) || null,
+    ])
+  }
+
+  /**
+   * Load the session for the contact (in the room).
+   * A new empty session will be returned if there's no one or it had been expired.
+   */
+  public async load<T extends object = any> (
+    contact : Contact,
+    room?   : null | Room,
+  ): Promise<Session<T>> {
+    log.verbose('SessionManager', 'load(%s, %s)', contact, room || '')
+
+    const key    = this.key(contact, room)
+    const record = await this.memory.get<SessionRecord>(key)
+
+    if (!record || this.expired(record)) {
+      return new Session<T>(this, key, {} as T)
+    }
+    return new Session<T>(this, key, record.data as T)
+  }
+
+  /**
+   * @private
+   */
+  public async save (session: Session): Promise<void> {
+    const record: SessionRecord = {
+      data     : session.data,
+      expireAt : this.ttl > 0 ? Date.now() + this.ttl : 0,
+    }
+    await this.memory.set(session.key, record)
+    await this.memory.save()
+  }
+
+  /**
+   * @private
+   */
+  public async destroy (session: Session): Promise<void> {
+    await this.memory.delete(session.key)
+    await this.memory.save()
+  }
+
+  /**
+   * Delete all the expired sessions from the memory.
+   */
+  public async prune (): Promise<void> {
+    log.verbose('SessionManager', 'prune()')
+
+    const expiredKeyList: string[] = []
+    for await (const [key, record] of this.memory.entries<SessionRecord>()) {
+      if (this.expired(record)) {
+        expiredKeyList.push(key)
+      }
+    }
+
+    if (expiredKeyList.length === 0) {
+      return
+    }
+
+    for (const key of expiredKeyList) {
+      await this.memory.delete(key)
+    }
+    await this.memory.save()
+  }
+
+  private expired (record: SessionRecord): boolean {
+    return !!record.expireAt && record.expireAt < Date.now()
+  }
+
+}
@@ -23,7 +23,11 @@
 import test  from 'blue-tape'
 import sinon from 'sinon'
 
-import { ContactPayload } from 'wechaty-puppet'
+import {
+  ContactPayload,
+  MessagePayload,
+  MessageType,
+}                     from 'wechaty-puppet'
 import { PuppetMock } from 'wechaty-puppet-mock'
 
 import { Wechaty }    from '../wechaty'
@@ -54,3 +58,105 @@ test('findAll()', async t => {
 
   await wechaty.stop()
 })
+
+test('ask()', async t => {
+  const EXPECTED_CONTACT_ID = 'contact1'
+
+  const sandbox = sinon.createSandbox()
+
+  const puppet = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+
+  await wechaty.start()
+
+  sandbox.stub(puppet, 'selfId').returns('bot')
+  sandbox.stub(puppet, 'contactPayload').callsFake(async (id: string) => ({ id, name: id } as ContactPayload))
+  sandbox.stub(puppet, 'messagePayload').callsFake(async (id: string) => ({
+    fromId    : EXPECTED_CONTACT_ID,
+    id,
+    text      : id,
+    timestamp : Date.now(),
+    type      : MessageType.Text,
+  } as MessagePayload))
+
+  const sendStub = sandbox.stub(puppet, 'messageSendText').callsFake(async () => {
+    // the reply could arrive before the sending has been resolved
+    puppet.emit('message', 'Huan')
+  })
+
+  const contact = wechaty.Contact.load(EXPECTED_CONTACT_ID)
+  const reply = await contact.ask('What is your name?')
+
+  t.true(sendStub.calledOnce, 'should say the question')
+  t.equal(sendStub.firstCall.args[1], 'What is your name?', 'should say the question text')
+  t.equal(reply.text(), 'Huan', 'should get the reply')
+
+  await wechaty.stop()
+  sandbox.restore()
+})
+
+test('ask() reject when failed to say the question', async t => {
+  const sandbox = sinon.createSandbox()
+
+  const puppet = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+
+  await wechaty.start()
+
+  const EXPECTED_ERROR = new Error('send error')
+  sandbox.stub(puppet, 'messageSendText').rejects(EXPECTED_ERROR)
+
+  const listenerCount = wechaty.listenerCount('message')
+  const contact = wechaty.Contact.load('contact1')
+  try {
+    await contact.ask('What is your name?', { timeout: 0 })
+    t.fail('should reject')
+  } catch (e) {
+    t.equal(e, EXPECTED_ERROR, 'should reject with the error of say()')
+  }
+  t.equal(wechaty.listenerCount('message'), listenerCount, 'should stop waiting for the reply')
+
+  await wechaty.stop()
+  sandbox.restore()
+})
+
+test('toJSON() & fromJSON()', async t => {
+  const EXPECTED_CONTACT_ID = 'contact1'
+
+  const sandbox = sinon.createSandbox()
+
+  const puppet = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+  await wechaty.start()
+
+  const payloadStub = sandbox.stub(puppet, 'contactPayload').resolves({
+    id   : EXPECTED_CONTACT_ID,
+    name : 'name',
+  } as ContactPayload)
+
+  const contact = wechaty.Contact.load(EXPECTED_CONTACT_ID)
+  await contact.ready()
+
+  const json = JSON.stringify(contact)
+  t.deepEqual(JSON.parse(json), {
+    id      : EXPECTED_CONTACT_ID,
+    payload : { id: EXPECTED_CONTACT_ID, name: 'name' },
+    schema  : 'Contact',
+    version : 1,
+  }, 'should serialize to the versioned schema')
+
+  const anotherWechaty = new Wechaty({ puppet: new PuppetMock() })
+  await anotherWechaty.start()
+
+  const rehydrated = anotherWechaty.Contact.fromJSON(json)
+  t.true(rehydrated.isReady(), 'should be ready with the payload in json')
+  t.equal(rehydrated.name(), 'name', 'should get the name from json payload')
+  t.true(payloadStub.calledOnce, 'should not ask the puppet again')
+
+  t.throws(() => anotherWechaty.Contact.fromJSON({ ...JSON.parse(json), version: 2 }), 'should reject newer schema version')
+  t.throws(() => anotherWechaty.Contact.fromJSON({ ...JSON.parse(json), schema: 'Room' }), 'should reject other schema')
+
+  await anotherWechaty.stop()
+  await wechaty.stop()
+  sandbox.restore()
+})
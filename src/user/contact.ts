@@ -35,16 +35,29 @@ import {
   qrCodeForChatie,
   Raven,
 }                   from '../config'
+import {
+  parseSchemaJson,
+  SCHEMA_VERSION,
+  SchemaJson,
+}                   from '../schema'
 import {
   Sayable,
 }                   from '../types'
 
 import { UrlLink }  from './url-link'
 import { MiniProgram }  from './mini-program'
-import { Message } from './message'
+import {
+  Message,
+  MessageWaitOptions,
+}                       from './message'
 
 export const POOL = Symbol('pool')
 
+/**
+ * The JSON document of Contact, see `SCHEMA_VERSION` for the details
+ */
+export type ContactJson = SchemaJson<'Contact', ContactPayload>
+
 /**
  * All wechat contacts(friend) will be encapsulated as a Contact.
  * [Examples/Contact-Bot]{@link https://github.com/Chatie/wechaty/blob/1523c5e02be46ebe2cc172a744b2fbe53351540e/examples/contact-bot.ts}
@@ -120,6 +133,29 @@ export class Contact extends Accessory implements Sayable {
     return newContact
   }
 
+  /**
+   * Rehydrate the Contact from the JSON document produced by `toJSON()`.
+   *
+   * The contact will be loaded by `load(id)`, and be ready without asking the puppet if the document has the payload.
+   *
+   * @param {string | ContactJson} json
+   * @example
+   * const contact = bot.Contact.fromJSON(json)
+   */
+  public static fromJSON<T extends typeof Contact> (
+    this : T,
+    json : string | ContactJson,
+  ): T['prototype'] {
+    log.verbose('Contact', 'static fromJSON(%s)', typeof json === 'string' ? json : json.id)
+
+    const doc = parseSchemaJson<'Contact', ContactPayload>('Contact', json)
+    const contact = this.load(doc.id)
+    if (doc.payload && !contact.isReady()) {
+      contact.payload = doc.payload
+    }
+    return contact
+  }
+
   /**
    * The way to search Contact
    *
@@ -299,6 +335,22 @@ export class Contact extends Accessory implements Sayable {
     return `Contact<${identity}>`
   }
 
+  /**
+   * Get the JSON document of the contact, which can be rehydrated by `Contact.fromJSON()`.
+   *
+   * `JSON.stringify(contact)` will call this method.
+   *
+   * @returns {ContactJson}
+   */
+  public toJSON (): ContactJson {
+    return {
+      id      : this.id,
+      payload : this.payload,
+      schema  : 'Contact',
+      version : SCHEMA_VERSION,
+    }
+  }
+
   public async say (text:     string)      : Promise<void | Message>
   public async say (contact:  Contact)     : Promise<void | Message>
   public async say (file:     FileBox)     : Promise<void | Message>
@@ -370,52 +422,109 @@ export class Contact extends Accessory implements Sayable {
               | UrlLink
   ): Promise<void | Message> {
     log.verbose('Contact', 'say(%s)', something)
-    let msgId: string | void
+
     if (typeof something === 'string') {
-      /**
-       * 1. Text
-       */
-      msgId = await this.puppet.messageSendText({
-        contactId: this.id,
-      }, something)
-    } else if (something instanceof Contact) {
-      /**
-       * 2. Contact
-       */
-      msgId = await this.puppet.messageSendContact({
-        contactId: this.id,
-      }, something.id)
-    } else if (something instanceof FileBox) {
-      /**
-       * 3. File
-       */
-      msgId = await this.puppet.messageSendFile({
-        contactId: this.id,
-      }, something)
-    } else if (something instanceof UrlLink) {
-      /**
-       * 4. Link Message
-       */
-      msgId = await this.puppet.messageSendUrl({
-        contactId : this.id,
-      }, something.payload)
-    } else if (something instanceof MiniProgram) {
-      /**
-       * 5. Mini Program
-       */
-      msgId = await this.puppet.messageSendMiniProgram({
-        contactId : this.id,
-      }, something.payload)
-    } else {
-      throw new Error('unsupported arg: ' + something)
+      const textList = this.wechaty.splitText(something)
+      if (textList.length > 1) {
+        let msg: void | Message
+        for (const text of textList) {
+          msg = await this.say(text)
+        }
+        return msg
+      }
     }
+
+    const msgId = await this.wechaty.sendQueue.push(this, something, async () => {
+      if (typeof something === 'string') {
+        /**
+         * 1. Text
+         */
+        return this.puppet.messageSendText({
+          contactId: this.id,
+        }, something)
+      } else if (something instanceof Contact) {
+        /**
+         * 2. Contact
+         */
+        return this.puppet.messageSendContact({
+          contactId: this.id,
+        }, something.id)
+      } else if (something instanceof FileBox) {
+        /**
+         * 3. File
+         */
+        return this.puppet.messageSendFile({
+          contactId: this.id,
+        }, something)
+      } else if (something instanceof UrlLink) {
+        /**
+         * 4. Link Message
+         */
+        return this.puppet.messageSendUrl({
+          contactId : this.id,
+        }, something.payload)
+      } else if (something instanceof MiniProgram) {
+        /**
+         * 5. Mini Program
+         */
+        return this.puppet.messageSendMiniProgram({
+          contactId : this.id,
+        }, something.payload)
+      } else {
+        throw new Error('unsupported arg: ' + something)
+      }
+    })
     if (msgId) {
       const msg = this.wechaty.Message.load(msgId)
       await msg.ready()
+      await this.wechaty.archiveMessage(msg)
       return msg
     }
   }
 
+  /**
+   * Say the question to the contact, and wait for the reply in the 1:1 chat.
+   *
+   * @param {string} question
+   * @param {MessageWaitOptions} [options] - `timeout` in milliseconds, default 60 seconds
+   * @returns {Promise<Message>} - the reply message, rejected with `TimeoutError` if there's no reply in time,
+   * or with the error of `say()` if the question could not be sent.
+   * @example
+   * try {
+   *   const reply = await contact.ask('What is your name?', { timeout: 60 * 1000 })
+   *   await contact.say(`Hello, ${reply.text()}`)
+   * } catch (e) {
+   *   if (e instanceof TimeoutError) {
+   *     await contact.say('Bye')
+   *   }
+   * }
+   */
+  public async ask (
+    question : string,
+    options? : MessageWaitOptions,
+  ): Promise<Message> {
+    log.verbose('Contact', 'ask(%s, %s)', question, JSON.stringify(options) || '')
+
+    /**
+     * Wait before saying, the reply could come back before `say()` resolved.
+     */
+    const reply = this.wechaty.Message.waitForCancelable(message => {
+      const from = message.from()
+      return !message.room() && !!from && from.id === this.id
+    }, options)
+
+    try {
+      await this.say(question)
+    } catch (e) {
+      // stop waiting for the reply of the question which had not been sent
+      reply.future.catch(() => undefined)
+      reply.cancel(e)
+      throw e
+    }
+
+    return reply.future
+  }
+
   /**
    * Get the name from a contact
    *
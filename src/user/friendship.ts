@@ -31,6 +31,11 @@ import {
 import {
   tryWait,
 }                   from '../helper-functions'
+import {
+  parseSchemaJson,
+  SCHEMA_VERSION,
+  SchemaJson,
+}                   from '../schema'
 
 import {
   FriendshipPayload,
@@ -45,6 +50,11 @@ import {
   Contact,
 }                   from './contact'
 
+/**
+ * The JSON document of Friendship, see `SCHEMA_VERSION` for the details
+ */
+export type FriendshipJson = SchemaJson<'Friendship', FriendshipPayload>
+
 /**
  * Send, receive friend request, and friend confirmation events.
  *
@@ -70,6 +80,29 @@ export class Friendship extends Accessory implements Acceptable {
     return newFriendship
   }
 
+  /**
+   * Rehydrate the Friendship from the JSON document produced by `toJSON()`.
+   *
+   * The friendship will be loaded by `load(id)`, and be ready without asking the puppet if the document has the payload.
+   *
+   * @param {string | FriendshipJson} json
+   * @example
+   * const friendship = bot.Friendship.fromJSON(json)
+   */
+  public static fromJSON<T extends typeof Friendship> (
+    this : T,
+    json : string | FriendshipJson,
+  ): T['prototype'] {
+    log.verbose('Friendship', 'static fromJSON(%s)', typeof json === 'string' ? json : json.id)
+
+    const doc = parseSchemaJson<'Friendship', FriendshipPayload>('Friendship', json)
+    const friendship = this.load(doc.id)
+    if (doc.payload && !friendship.isReady()) {
+      friendship.payload = doc.payload
+    }
+    return friendship
+  }
+
   /**
    * @description
    * use {@link Friendship#add} instead
@@ -160,6 +193,22 @@ export class Friendship extends Accessory implements Acceptable {
     ].join('')
   }
 
+  /**
+   * Get the JSON document of the friendship, which can be rehydrated by `Friendship.fromJSON()`.
+   *
+   * `JSON.stringify(friendship)` will call this method.
+   *
+   * @returns {FriendshipJson}
+   */
+  public toJSON (): FriendshipJson {
+    return {
+      id      : this.id,
+      payload : this.payload,
+      schema  : 'Friendship',
+      version : SCHEMA_VERSION,
+    }
+  }
+
   public isReady (): boolean {
     return !!this.payload && (Object.keys(this.payload).length > 0)
   }
@@ -24,14 +24,17 @@
 import test  from 'blue-tape'
 import sinon from 'sinon'
 
+import { FileBox }      from 'file-box'
 import {
   ContactPayload,
   MessagePayload,
   MessageType,
+  RoomMemberPayload,
   RoomPayload,
 }                       from 'wechaty-puppet'
 import { PuppetMock }   from 'wechaty-puppet-mock'
 
+import { TimeoutError } from '../errors'
 import { Wechaty }      from '../wechaty'
 
 test('recalled()', async t => {
@@ -103,3 +106,325 @@ test('recalled()', async t => {
 
   await wechaty.stop()
 })
+
+test('waitFor()', async t => {
+  const EXPECTED_CONTACT_ID = 'contact1'
+  const EXPECTED_ROOM_ID    = 'room1'
+
+  const sandbox = sinon.createSandbox()
+
+  const puppet = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+
+  await wechaty.start()
+
+  sandbox.stub(puppet, 'selfId').returns('bot')
+  sandbox.stub(puppet, 'messagePayload').callsFake(async (id: string) => {
+    const [fromId, roomId, text] = id.split(':')
+    return {
+      fromId,
+      id,
+      roomId    : roomId || undefined,
+      text,
+      timestamp : Date.now(),
+      type      : MessageType.Text,
+    } as MessagePayload
+  })
+  sandbox.stub(puppet, 'roomPayload').resolves({ topic: 'topic' } as RoomPayload)
+  sandbox.stub(puppet, 'roomMemberList').resolves([EXPECTED_CONTACT_ID])
+  sandbox.stub(puppet, 'contactPayload').callsFake(async (id: string) => ({ id, name: id } as ContactPayload))
+
+  const contact = wechaty.Contact.load(EXPECTED_CONTACT_ID)
+  const room    = wechaty.Room.load(EXPECTED_ROOM_ID)
+
+  const future = room.waitFor({ from: contact, text: /yes|no/ })
+
+  puppet.emit('message', `${EXPECTED_CONTACT_ID}::yes`)
+  puppet.emit('message', `bot:${EXPECTED_ROOM_ID}:yes`)
+  puppet.emit('message', `${EXPECTED_CONTACT_ID}:${EXPECTED_ROOM_ID}:maybe`)
+  puppet.emit('message', `${EXPECTED_CONTACT_ID}:${EXPECTED_ROOM_ID}:no`)
+
+  const message = await future
+  t.equal(message.text(), 'no', 'should resolve the first message matched the filter in the room')
+  t.equal(wechaty.listenerCount('message'), 0, 'should remove the listener after resolved')
+
+  const clock = sinon.useFakeTimers()
+  const timeoutFuture = wechaty.Message.waitFor(() => false, { timeout: 10 })
+  clock.tick(10)
+  clock.restore()
+
+  try {
+    await timeoutFuture
+    t.fail('should reject')
+  } catch (e) {
+    t.true(e instanceof TimeoutError, 'should reject with TimeoutError')
+    t.equal(e.timeout, 10, 'should carry the timeout')
+  }
+  t.equal(wechaty.listenerCount('message'), 0, 'should remove the listener after timeout')
+
+  await wechaty.stop()
+  sandbox.restore()
+})
+
+test('toJSON() & fromJSON()', async t => {
+  const puppet = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+  await wechaty.start()
+
+  const payload = {
+    id        : 'message1',
+    text      : 'hello',
+    timestamp : Date.now(),
+    type      : MessageType.Text,
+  } as MessagePayload
+
+  const message = wechaty.Message.fromJSON({
+    id      : payload.id,
+    payload,
+    schema  : 'Message',
+    version : 1,
+  })
+  t.equal(message.text(), 'hello', 'should rehydrate the message with payload')
+  t.deepEqual(message.toJSON().payload, payload, 'should serialize the payload')
+  t.equal(wechaty.Message.fromJSON(JSON.stringify(message)).id, 'message1', 'should rehydrate from the json string')
+
+  await wechaty.stop()
+})
+
+test('mentionInfo() & textWithoutMentions()', async t => {
+  const sandbox = sinon.createSandbox()
+
+  const puppet = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+  await wechaty.start()
+
+  const TEXT = '@Huan LI\u2005hello @所有人 email@nobody @bot /weather'
+
+  sandbox.stub(puppet, 'messagePayload').callsFake(async (id: string) => ({
+    fromId        : 'contact2',
+    id,
+    mentionIdList : id === 'withIdList' ? ['contact1'] : undefined,
+    roomId        : 'room1',
+    text          : TEXT,
+    timestamp     : Date.now(),
+    type          : MessageType.Text,
+  } as MessagePayload))
+  sandbox.stub(puppet, 'contactPayload').callsFake(async (id: string) => ({ id, name: id } as ContactPayload))
+  sandbox.stub(puppet, 'roomPayload').resolves({ topic: 'topic' } as RoomPayload)
+  sandbox.stub(puppet, 'roomMemberList').resolves(['contact1', 'contact2', 'bot'])
+  sandbox.stub(puppet, 'roomMemberPayload').callsFake(async (_: string, id: string) => ({
+    id,
+    roomAlias: id === 'contact1' ? 'Huan LI' : '',
+  } as RoomMemberPayload))
+  sandbox.stub(puppet, 'roomMemberSearch').callsFake(async (_: string, query: any) => {
+    if (query.roomAlias === 'Huan LI') {
+      return ['contact1']
+    } else if (query.name === 'bot') {
+      return ['bot']
+    }
+    return []
+  })
+
+  const message = wechaty.Message.load('message1')
+  await message.ready()
+
+  const info = await message.mentionInfo()
+  t.true(info.all, 'should detect the mention-all')
+  t.deepEqual(info.mentionList.map(m => [m.name, m.start, m.end, m.matchedBy]), [
+    ['Huan LI', 0, 8, 'roomAlias'],
+    ['所有人', 15, 19, undefined],
+    ['bot', 33, 37, 'name'],
+  ], 'should get the offsets and the matched names of the mentions')
+  t.deepEqual(info.contactList.map(c => c.id), ['contact1', 'bot'], 'should get the mentioned contacts')
+  t.deepEqual(info.unresolvedList.map(m => m.name), ['nobody'], 'should get the unresolved mentions')
+  t.deepEqual((await message.mention()).map(c => c.id), ['contact1', 'bot'], 'should keep mention() returning the contacts')
+
+  t.equal(await message.textWithoutMentions(), 'hello email@nobody /weather', 'should remove the resolved mentions')
+
+  const idListMessage = wechaty.Message.load('withIdList')
+  await idListMessage.ready()
+  const idListInfo = await idListMessage.mentionInfo()
+  t.deepEqual(idListInfo.contactList.map(c => c.id), ['contact1'], 'should use the mentionIdList of the payload')
+  t.deepEqual(idListInfo.mentionList.map(m => m.name), ['Huan LI', '所有人'], 'should only resolve the contacts in the mentionIdList')
+
+  await wechaty.stop()
+  sandbox.restore()
+})
+
+test('mention() the member whose name contains @', async t => {
+  const sandbox = sinon.createSandbox()
+
+  const puppet = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+  await wechaty.start()
+
+  const TEXT_DICT: { [id: string]: string } = {
+    magic : '@a@b\u2005hello',
+    space : 'hello @a@b how are you',
+  }
+
+  sandbox.stub(puppet, 'messagePayload').callsFake(async (id: string) => ({
+    fromId    : 'contact2',
+    id,
+    roomId    : 'room1',
+    text      : TEXT_DICT[id],
+    timestamp : Date.now(),
+    type      : MessageType.Text,
+  } as MessagePayload))
+  sandbox.stub(puppet, 'contactPayload').callsFake(async (id: string) => ({ id, name: id } as ContactPayload))
+  sandbox.stub(puppet, 'roomPayload').resolves({ topic: 'topic' } as RoomPayload)
+  sandbox.stub(puppet, 'roomMemberList').resolves(['contact1', 'contact2'])
+  sandbox.stub(puppet, 'roomMemberPayload').callsFake(async (_: string, id: string) => ({ id } as RoomMemberPayload))
+  sandbox.stub(puppet, 'roomMemberSearch').callsFake(async (_: string, query: any) =>
+    query.name === 'a@b' ? ['contact1'] : [],
+  )
+
+  for (const id of Object.keys(TEXT_DICT)) {
+    const message = wechaty.Message.load(id)
+    await message.ready()
+    t.deepEqual((await message.mention()).map(c => c.id), ['contact1'], `should mention the member named a@b by "${id}"`)
+  }
+
+  await wechaty.stop()
+  sandbox.restore()
+})
+
+test('toContent()', async t => {
+  const sandbox = sinon.createSandbox()
+
+  const puppet = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+  await wechaty.start()
+
+  const TYPE_MAP: { [id: string]: MessageType } = {
+    image   : MessageType.Image,
+    text    : MessageType.Text,
+    unknown : MessageType.Unknown,
+    url     : MessageType.Url,
+  }
+
+  sandbox.stub(puppet, 'messagePayload').callsFake(async (id: string) => ({
+    id,
+    text      : `text of ${id}`,
+    timestamp : Date.now(),
+    type      : TYPE_MAP[id],
+  } as MessagePayload))
+  sandbox.stub(puppet, 'messageFile').resolves(FileBox.fromBase64('', 'image.jpg'))
+  sandbox.stub(puppet, 'messageUrl').resolves({ title: 'Wechaty', url: 'https://github.com/chatie/wechaty' })
+
+  const load = async (id: string) => {
+    const message = wechaty.Message.load(id)
+    await message.ready()
+    return message.toContent()
+  }
+
+  const text = await load('text')
+  t.true(text.type === MessageType.Text && text.text === 'text of text', 'should get the text')
+
+  const image = await load('image')
+  t.true(image.type === MessageType.Image && image.file.name === 'image.jpg', 'should get the file of the image')
+
+  const url = await load('url')
+  t.true(url.type === MessageType.Url && url.urlLink.title() === 'Wechaty', 'should get the url link')
+
+  const unknown = await load('unknown')
+  t.true(unknown.type === MessageType.Unknown && unknown.text === 'text of unknown', 'should get the raw text of the unknown message')
+
+  await wechaty.stop()
+  sandbox.restore()
+})
+
+test('reply() & quoted()', async t => {
+  const sandbox = sinon.createSandbox()
+
+  const puppet = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+  await wechaty.start()
+
+  const PAYLOAD_LIST = [
+    { fromId: 'contact1', id: 'original', text: 'how are you', timestamp: 100, toId: 'bot', type: MessageType.Text },
+    { fromId: 'contact2', id: 'other', text: 'how are you', timestamp: 150, toId: 'bot', type: MessageType.Text },
+    { fromId: 'contact1', id: 'quote', text: '「how are you」\n- - - - - - - - - - - - - - -\nfine', timestamp: 200, toId: 'bot', type: MessageType.Text },
+    { fromId: 'contact1', id: 'named', text: '「contact1: how are you」\n- - - - - - - - - - - - - - -\nfine', timestamp: 250, toId: 'bot', type: MessageType.Text },
+    { fromId: 'contact1', id: 'plain', text: 'hello', timestamp: 300, toId: 'bot', type: MessageType.Text },
+  ] as MessagePayload[]
+
+  sandbox.stub(puppet, 'messagePayload').callsFake(async (id: string) => PAYLOAD_LIST.filter(p => p.id === id)[0])
+  sandbox.stub(puppet, 'messageSearch').callsFake(async (query: any) =>
+    PAYLOAD_LIST.filter(p => p.text === query.text).map(p => p.id),
+  )
+  sandbox.stub(puppet, 'contactPayload').callsFake(async (id: string) => ({ id, name: id } as ContactPayload))
+  const sendText = sandbox.stub(puppet, 'messageSendText').resolves()
+
+  const original = wechaty.Message.load('original')
+  await original.ready()
+
+  await original.reply('fine')
+  t.deepEqual(sendText.firstCall.args.slice(1), ['「how are you」\n- - -\nfine'], 'should fallback to the textual quote')
+
+  const sendQuote = sinon.stub().resolves()
+  ;(puppet as any).messageSendQuote = sendQuote
+  await original.reply('fine')
+  t.deepEqual(sendQuote.firstCall.args.slice(1), ['fine', 'original'], 'should send the quote-reply if the puppet supports it')
+  delete (puppet as any).messageSendQuote
+
+  const quote = wechaty.Message.load('quote')
+  await quote.ready()
+  const quoted = await quote.quoted()
+  t.equal(quoted && quoted.id, 'original', 'should find the quoted message in the same conversation')
+
+  const named = wechaty.Message.load('named')
+  await named.ready()
+  const namedQuoted = await named.quoted()
+  t.equal(namedQuoted && namedQuoted.id, 'original', 'should find the quoted message prefixed by the name of the sender')
+
+  const plain = wechaty.Message.load('plain')
+  await plain.ready()
+  t.equal(await plain.quoted(), null, 'should get null for the message without quote')
+
+  await wechaty.stop()
+  sandbox.restore()
+})
+
+test('recall()', async t => {
+  const sandbox = sinon.createSandbox()
+
+  const puppet = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+  await wechaty.start()
+
+  const selfId = puppet.selfId()
+  const now    = Math.floor(Date.now() / 1000)
+
+  const PAYLOAD_LIST = [
+    { fromId: selfId,     id: 'sent',     text: 'oops', timestamp: now,       toId: 'contact1', type: MessageType.Text },
+    { fromId: selfId,     id: 'outdated', text: 'oops', timestamp: now - 600, toId: 'contact1', type: MessageType.Text },
+    { fromId: 'contact1', id: 'received', text: 'oops', timestamp: now,       toId: selfId,     type: MessageType.Text },
+  ] as MessagePayload[]
+
+  sandbox.stub(puppet, 'messagePayload').callsFake(async (id: string) => PAYLOAD_LIST.filter(p => p.id === id)[0])
+  sandbox.stub(puppet, 'contactPayload').callsFake(async (id: string) => ({ id, name: id } as ContactPayload))
+  sandbox.stub(puppet, 'messageSendText').resolves('sent' as any)
+  const messageRecall = sinon.stub().resolves(true)
+  ;(puppet as any).messageRecall = messageRecall
+
+  const sent = await wechaty.say('oops')
+  t.ok(sent, 'should return the sent message from say()')
+  t.equal(sent && await sent.recall(), true, 'should recall the message sent by the bot')
+  t.deepEqual(messageRecall.firstCall.args, ['sent'], 'should call the puppet with the message id')
+
+  for (const id of ['outdated', 'received']) {
+    const message = wechaty.Message.load(id)
+    await message.ready()
+    try {
+      await message.recall()
+      t.fail(`should reject for the ${id} message`)
+    } catch (e) {
+      t.pass(`should reject for the ${id} message`)
+    }
+  }
+  t.equal(messageRecall.callCount, 1, 'should not call the puppet when rejected')
+
+  await wechaty.stop()
+  sandbox.restore()
+})
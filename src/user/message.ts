@@ -27,16 +27,35 @@ import {
   MessagePayload,
   MessageQueryFilter,
   MessageType,
+  Puppet,
+  Receiver,
+  RoomMemberQueryFilter,
 }                       from 'wechaty-puppet'
 
 import {
   Accessory,
 }                       from '../accessory'
 import {
-  AT_SEPRATOR_REGEX,
   log,
   Raven,
 }                       from '../config'
+import {
+  TimeoutError,
+}                       from '../errors'
+import {
+  matchArchiveRecord,
+  MessageArchiveQuery,
+  paginateArchiveRecord,
+  toArchiveRecord,
+}                       from '../message-archive'
+import {
+  parseSchemaJson,
+  SCHEMA_VERSION,
+  SchemaJson,
+}                       from '../schema'
+import {
+  Session,
+}                       from '../session'
 import {
   Sayable,
 }                       from '../types'
@@ -54,12 +73,147 @@ import {
   MiniProgram,
 }                       from './mini-program'
 
+/**
+ * The JSON document of Message, see `SCHEMA_VERSION` for the details
+ */
+export type MessageJson = SchemaJson<'Message', MessagePayload>
+
 export interface MessageUserQueryFilter {
-  from? : Contact,
-  text? : string | RegExp
-  room? : Room
-  type? : MessageType
-  to?   : Contact
+  from?   : Contact,
+  text?   : string | RegExp
+  room?   : Room
+  type?   : MessageType
+  to?     : Contact
+  since?  : Date
+  until?  : Date
+  /**
+   * Full-text search: the text contains all the words, case insensitive.
+   */
+  search? : string
+  offset? : number
+  limit?  : number
+}
+
+/**
+ * The content of the message, discriminated by the `MessageType`. See `message.toContent()`
+ */
+export type MessageContent = { type: MessageType.Text, text: string }
+                           | {
+                             type : MessageType.Attachment
+                                  | MessageType.Audio
+                                  | MessageType.Emoticon
+                                  | MessageType.Image
+                                  | MessageType.Video,
+                             file : FileBox,
+                           }
+                           | { type: MessageType.Contact,     contact: Contact }
+                           | { type: MessageType.Url,         urlLink: UrlLink }
+                           | { type: MessageType.MiniProgram, miniProgram: MiniProgram }
+                           | { type: MessageType.Recalled,    message: null | Message }
+                           | {
+                             /**
+                              * The message types which have no content class, the raw text is provided
+                              */
+                             type : MessageType.ChatHistory
+                                  | MessageType.Location
+                                  | MessageType.Money
+                                  | MessageType.RedEnvelope
+                                  | MessageType.Transfer
+                                  | MessageType.Unknown,
+                             text : string,
+                           }
+
+export type MessagePredicate = (message: Message) => boolean | Promise<boolean>
+
+export interface MessageWaitOptions {
+  /**
+   * Milliseconds to wait before rejecting with a `TimeoutError`.
+   * Set to `0` for waiting forever. Default: 60 seconds
+   */
+  timeout?: number,
+}
+
+const DEFAULT_WAIT_TIMEOUT = 60 * 1000
+
+export interface MessageFileOptions {
+  /**
+   * Get the file from the `mediaCache` of the bot, and save it to the cache after downloaded from the puppet.
+   */
+  cache?: boolean,
+}
+
+/**
+ * One `@name` in the text of the message
+ */
+export interface MessageMention {
+  /**
+   * The offsets in `message.text()`: `text().slice(start, end)` is the `@name`
+   */
+  start    : number,
+  end      : number,
+  /**
+   * The display name after the `@`
+   */
+  name     : string,
+  /**
+   * `undefined` for the mention-all (`@all` / `@所有人`) and the unresolved mentions
+   */
+  contact? : Contact,
+  /**
+   * Which name of the contact matched the display name
+   */
+  matchedBy? : keyof RoomMemberQueryFilter,
+}
+
+export interface MessageMentionInfo {
+  /**
+   * Whether the message mentioned all the members by `@all` or `@所有人`
+   */
+  all            : boolean,
+  /**
+   * The mentioned contacts, including the ones which can not be located in the text
+   */
+  contactList    : Contact[],
+  /**
+   * The located mentions (resolved to contacts, or the mention-all), sorted by the offsets
+   */
+  mentionList    : MessageMention[],
+  /**
+   * The `@name`s which can not be resolved to any member of the room
+   */
+  unresolvedList : MessageMention[],
+}
+
+/**
+ * The `@name` is ended by the magic code `8197` normally,
+ * or we try the names with at most this number of words.
+ */
+const MAX_MENTION_WORD_NUM = 4
+
+const MENTION_ALL_REGEX = /^(all|所有人)$/i
+
+const QUOTE_SEPARATOR = '- - -'
+
+/**
+ * Seconds: the message can only be recalled in 2 minutes
+ */
+const RECALL_TIME_LIMIT = 2 * 60
+
+/**
+ * There's no quote API in the wechaty-puppet yet,
+ * the puppets which support the quote-reply can implement this method for `message.reply()`.
+ */
+interface QuotePuppet {
+  messageSendQuote (
+    receiver        : Receiver,
+    text            : string,
+    quotedMessageId : string,
+  ): Promise<void | string>
+}
+
+function isQuotePuppet (puppet: Puppet): puppet is Puppet & QuotePuppet {
+  return 'messageSendQuote' in puppet
+    && typeof (puppet as Puppet & Partial<QuotePuppet>).messageSendQuote === 'function'
 }
 
 /**
@@ -107,7 +261,19 @@ export class Message extends Accessory implements Sayable {
   }
 
   /**
-   * Find messages in cache
+   * Find messages in the message archive (if the `messageArchive` option of Wechaty had been set),
+   * or in the cache of the puppet.
+   *
+   * The messages are sorted by the date ascending when `since`, `until`, `search`, `offset` or `limit` is set.
+   *
+   * @throws {Error} - the rejection of the message archive
+   * @example
+   * const messageList = await bot.Message.findAll({
+   *   room   : room,
+   *   search : 'wechaty release',
+   *   since  : new Date('2018-01-01'),
+   *   limit  : 20,
+   * })
    */
   public static async findAll<T extends typeof Message> (
     this       : T,
@@ -115,6 +281,21 @@ export class Message extends Accessory implements Sayable {
   ): Promise<Array<T['prototype']>> {
     log.verbose('Message', 'findAll(%s)', JSON.stringify(userQuery) || '')
 
+    const archive = this.wechaty.messageArchive
+    if (archive) {
+      try {
+        const recordList = await archive.search(toArchiveQuery(userQuery || {}))
+        return recordList.map(record => this.fromJSON(record.message))
+      } catch (e) {
+        /**
+         * Do not fail safe: the empty result of a broken archive looks like no message had been sent
+         */
+        log.warn('Message', 'findAll() archive search rejected: %s', e.message)
+        Raven.captureException(e)
+        throw e
+      }
+    }
+
     let puppetQuery: undefined | MessageQueryFilter
 
     if (userQuery) {
@@ -142,7 +323,19 @@ export class Message extends Accessory implements Sayable {
         ),
       )
 
-      return messageList.filter(message => !invalidDict[message.id])
+      const validMessageList = messageList.filter(message => !invalidDict[message.id])
+      if (!userQuery || !needArchiveQuery(userQuery)) {
+        return validMessageList
+      }
+
+      /**
+       * The puppet does not support the date range, full-text search and pagination
+       */
+      const archiveQuery = toArchiveQuery(userQuery)
+      const recordList = validMessageList
+        .map(message => ({ message, timestamp: message.date().getTime() }))
+        .filter(record => matchArchiveRecord(toArchiveRecord(record.message), archiveQuery))
+      return paginateArchiveRecord(recordList, archiveQuery).map(record => record.message)
 
     } catch (e) {
       log.warn('Message', 'findAll() rejected: %s', e.message)
@@ -152,6 +345,90 @@ export class Message extends Accessory implements Sayable {
     }
   }
 
+  /**
+   * Wait for the next incoming message which matches the filter (or the predicate).
+   *
+   * The messages sent by the bot itself will be ignored.
+   *
+   * @example
+   * const message = await bot.Message.waitFor({ from: contact, text: /yes|no/ }, { timeout: 60 * 1000 })
+   */
+  public static async waitFor<T extends typeof Message> (
+    this    : T,
+    filter  : MessageUserQueryFilter | MessagePredicate,
+    options : MessageWaitOptions = {},
+  ): Promise<T['prototype']> {
+    log.verbose('Message', 'waitFor(%s, %s)',
+      typeof filter === 'function' ? 'predicate' : JSON.stringify(filter),
+      JSON.stringify(options),
+    )
+    return this.waitForCancelable(filter, options).future
+  }
+
+  /**
+   * @private
+   *
+   * Same as `waitFor()`, and the waiting can be stopped by `cancel()`,
+   * which removes the listener & the timer, then rejects the `future` with the `reason`.
+   */
+  public static waitForCancelable<T extends typeof Message> (
+    this    : T,
+    filter  : MessageUserQueryFilter | MessagePredicate,
+    options : MessageWaitOptions = {},
+  ): { future: Promise<T['prototype']>, cancel: (reason: Error) => void } {
+
+    const timeout = options.timeout === undefined
+      ? DEFAULT_WAIT_TIMEOUT
+      : options.timeout
+
+    const predicate: MessagePredicate = typeof filter === 'function'
+      ? filter
+      : message => matchFilter(message, filter)
+
+    let cancel: (reason: Error) => void = () => undefined
+
+    const future = new Promise<T['prototype']>((resolve, reject) => {
+      let timer: undefined | NodeJS.Timer
+
+      const cleanup = () => {
+        this.wechaty.removeListener('message', onMessage)
+        if (timer) {
+          clearTimeout(timer)
+        }
+      }
+
+      const onMessage = async (message: Message) => {
+        try {
+          if (message.self() || !await predicate(message)) {
+            return
+          }
+        } catch (e) {
+          cleanup()
+          reject(e)
+          return
+        }
+        cleanup()
+        resolve(message)
+      }
+
+      if (timeout > 0) {
+        timer = setTimeout(() => {
+          cleanup()
+          reject(new TimeoutError(`Message.waitFor() timeout after ${timeout}ms`, timeout))
+        }, timeout)
+      }
+
+      cancel = (reason: Error) => {
+        cleanup()
+        reject(reason)
+      }
+
+      this.wechaty.addListener('message', onMessage)
+    })
+
+    return { cancel, future }
+  }
+
   /**
    * Create a Mobile Terminated Message
    * @ignore
@@ -173,6 +450,29 @@ export class Message extends Accessory implements Sayable {
     return msg
   }
 
+  /**
+   * Rehydrate the Message from the JSON document produced by `toJSON()`.
+   *
+   * The message will be loaded by `load(id)`, and be ready without asking the puppet if the document has the payload.
+   *
+   * @param {string | MessageJson} json
+   * @example
+   * const message = bot.Message.fromJSON(json)
+   */
+  public static fromJSON<T extends typeof Message> (
+    this : T,
+    json : string | MessageJson,
+  ): T['prototype'] {
+    log.verbose('Message', 'static fromJSON(%s)', typeof json === 'string' ? json : json.id)
+
+    const doc = parseSchemaJson<'Message', MessagePayload>('Message', json)
+    const message = this.load(doc.id)
+    if (doc.payload && !message.isReady()) {
+      message.payload = doc.payload
+    }
+    return message
+  }
+
   /**
    * TODO: rename create to load ??? Huan 201806
    * @deprecated: use load() instead
@@ -260,6 +560,22 @@ export class Message extends Accessory implements Sayable {
     return msgStrList.join('')
   }
 
+  /**
+   * Get the JSON document of the message, which can be rehydrated by `Message.fromJSON()`.
+   *
+   * `JSON.stringify(message)` will call this method.
+   *
+   * @returns {MessageJson}
+   */
+  public toJSON (): MessageJson {
+    return {
+      id      : this.id,
+      payload : this.payload,
+      schema  : 'Message',
+      version : SCHEMA_VERSION,
+    }
+  }
+
   /**
    * Get the sender from a message.
    * @returns {Contact}
@@ -351,6 +667,33 @@ export class Message extends Accessory implements Sayable {
     return room
   }
 
+  /**
+   * Get the conversation session of the message:
+   * the session with the sender, in the room if the message is in a room.
+   *
+   * The session is saved in the memory of the bot, so it will survive the restart.
+   *
+   * @returns {Promise<Session>}
+   * @example
+   * bot.on('message', async m => {
+   *   const session = await m.session()
+   *   if (!session.data.name) {
+   *     session.data.name = m.text()
+   *     await session.save()
+   *     await m.say(`Nice to meet you, ${m.text()}`)
+   *   }
+   * })
+   */
+  public async session<T extends object = any> (): Promise<Session<T>> {
+    log.verbose('Message', 'session()')
+
+    const from = this.from()
+    if (!from) {
+      throw new Error('can not get session for message without sender')
+    }
+    return this.wechaty.session<T>(from, this.room())
+  }
+
   /**
    * @description
    * use {@link Message#text} instead
@@ -422,6 +765,92 @@ export class Message extends Accessory implements Sayable {
     }
   }
 
+  /**
+   * Get the message which had been quoted by this message.
+   *
+   * The puppets deliver the quote message as the text like "「original」\n- - -\nreply",
+   * so we find the latest message with the original text before this message.
+   *
+   * @returns {Promise<null | Message>} - `null` if this is not a quote message, or the quoted message can not be found
+   * @example
+   * const quotedMessage = await message.quoted()
+   * if (quotedMessage) {
+   *   console.log(`${message.from()} replied to ${quotedMessage}`)
+   * }
+   */
+  public async quoted (): Promise<null | Message> {
+    log.verbose('Message', 'quoted()')
+
+    if (this.type() !== MessageType.Text) {
+      return null
+    }
+
+    const quote = parseQuoteText(this.text())
+    if (!quote) {
+      return null
+    }
+
+    const room = this.room()
+    const date = this.date().getTime()
+
+    /**
+     * In the 1:1 chat, the quoted message was sent by either side of this conversation
+     */
+    const from = this.from()
+    const to   = this.to()
+    const conversationIdList = [from, to].map(contact => contact && contact.id)
+    const sameConversation = (message: Message) => {
+      if (room) {
+        return true
+      }
+      const messageFrom = message.from()
+      const messageTo   = message.to()
+      return !message.room()
+        && !!messageFrom && conversationIdList.includes(messageFrom.id)
+        && !!messageTo   && conversationIdList.includes(messageTo.id)
+    }
+
+    const find = async (text: string) => {
+      const messageList = await this.wechaty.Message.findAll({
+        room: room || undefined,
+        text,
+      })
+      return messageList.filter(message =>
+        message.id !== this.id
+          && sameConversation(message)
+          && message.date().getTime() <= date
+      )
+    }
+
+    let candidateList = await find(quote.original)
+
+    /**
+     * The original might be prefixed by the name of the sender: "「name: original」"
+     */
+    const matched = /^(.+?)[:：]\s?([\s\S]+)$/.exec(quote.original)
+    if (candidateList.length === 0 && matched) {
+      const [, name, original] = matched
+      candidateList = await find(original)
+
+      const namedList = candidateList.filter(message => {
+        const from = message.from()
+        return !!from && from.name() === name
+      })
+      if (namedList.length) {
+        candidateList = namedList
+      }
+    }
+
+    if (candidateList.length === 0) {
+      log.verbose('Message', 'quoted() can not find the quoted message: %s', quote.original)
+      return null
+    }
+
+    return candidateList.reduce((latest, message) =>
+      message.date().getTime() >= latest.date().getTime() ? message : latest
+    )
+  }
+
   public async say (text:    string, mention?: Contact | Contact[]) : Promise<void | Message>
   public async say (contact: Contact)                               : Promise<void | Message>
   public async say (file:    FileBox)                               : Promise<void | Message>
@@ -515,53 +944,145 @@ export class Message extends Accessory implements Sayable {
     const from = this.from()
     // const to   = this.to()
     const room = this.room()
-    let msgId: void | string
+
+    const conversation = room || from
+    if (!conversation) {
+      throw new Error('no room or contact to say to')
+    }
+
     if (typeof textOrContactOrFileOrUrlOrMini === 'string') {
-      /**
-       * Text Message
-       */
-      msgId = await this.puppet.messageSendText({
-        contactId : (from && from.id) || undefined,
-        roomId    : (room && room.id) || undefined,
-      }, textOrContactOrFileOrUrlOrMini)
-    } else if (textOrContactOrFileOrUrlOrMini instanceof Contact) {
-      /**
-       * Contact Card
-       */
-      msgId = await this.puppet.messageSendContact({
-        contactId : (from && from.id) || undefined,
-        roomId    : (room && room.id) || undefined,
-      }, textOrContactOrFileOrUrlOrMini.id)
-    } else if (textOrContactOrFileOrUrlOrMini instanceof FileBox) {
-      /**
-       * File Message
-       */
-      msgId = await this.puppet.messageSendFile({
-        contactId : (from && from.id) || undefined,
-        roomId    : (room && room.id) || undefined,
-      }, textOrContactOrFileOrUrlOrMini)
-    } else if (textOrContactOrFileOrUrlOrMini instanceof UrlLink) {
-      /**
-       * Link Message
-       */
-      msgId = await this.puppet.messageSendUrl({
-        contactId : (from && from.id) || undefined,
-        roomId    : (room && room.id) || undefined,
-      }, textOrContactOrFileOrUrlOrMini.payload)
-    } else if (textOrContactOrFileOrUrlOrMini instanceof MiniProgram) {
-      /**
-       * MiniProgram
-       */
-      msgId = await this.puppet.messageSendMiniProgram({
+      const textList = this.wechaty.splitText(textOrContactOrFileOrUrlOrMini)
+      if (textList.length > 1) {
+        let msg: void | Message
+        for (const text of textList) {
+          msg = await this.say(text)
+        }
+        return msg
+      }
+    }
+
+    const msgId = await this.wechaty.sendQueue.push(conversation, textOrContactOrFileOrUrlOrMini, async () => {
+      if (typeof textOrContactOrFileOrUrlOrMini === 'string') {
+        /**
+         * Text Message
+         */
+        return this.puppet.messageSendText({
+          contactId : (from && from.id) || undefined,
+          roomId    : (room && room.id) || undefined,
+        }, textOrContactOrFileOrUrlOrMini)
+      } else if (textOrContactOrFileOrUrlOrMini instanceof Contact) {
+        /**
+         * Contact Card
+         */
+        return this.puppet.messageSendContact({
+          contactId : (from && from.id) || undefined,
+          roomId    : (room && room.id) || undefined,
+        }, textOrContactOrFileOrUrlOrMini.id)
+      } else if (textOrContactOrFileOrUrlOrMini instanceof FileBox) {
+        /**
+         * File Message
+         */
+        return this.puppet.messageSendFile({
+          contactId : (from && from.id) || undefined,
+          roomId    : (room && room.id) || undefined,
+        }, textOrContactOrFileOrUrlOrMini)
+      } else if (textOrContactOrFileOrUrlOrMini instanceof UrlLink) {
+        /**
+         * Link Message
+         */
+        return this.puppet.messageSendUrl({
+          contactId : (from && from.id) || undefined,
+          roomId    : (room && room.id) || undefined,
+        }, textOrContactOrFileOrUrlOrMini.payload)
+      } else if (textOrContactOrFileOrUrlOrMini instanceof MiniProgram) {
+        /**
+         * MiniProgram
+         */
+        return this.puppet.messageSendMiniProgram({
+          contactId : (from && from.id) || undefined,
+          roomId    : (room && room.id) || undefined,
+        }, textOrContactOrFileOrUrlOrMini.payload)
+      } else {
+        throw new Error('unknown msg: ' + textOrContactOrFileOrUrlOrMini)
+      }
+    })
+    if (msgId) {
+      const msg = this.wechaty.Message.load(msgId)
+      await msg.ready()
+      await this.wechaty.archiveMessage(msg)
+      return msg
+    }
+  }
+
+  /**
+   * Recall the message sent by the bot.
+   *
+   * WeChat only allows to recall the message in 2 minutes after it had been sent.
+   *
+   * @returns {Promise<boolean>} - whether the puppet recalled the message
+   * @example
+   * const message = await contact.say('oops')
+   * if (message) {
+   *   await message.recall()
+   * }
+   */
+  public async recall (): Promise<boolean> {
+    log.verbose('Message', 'recall()')
+
+    if (!this.self()) {
+      throw new Error('can not recall the message which is not sent by the bot')
+    }
+    if (this.age() > RECALL_TIME_LIMIT) {
+      throw new Error(`can not recall the message sent more than ${RECALL_TIME_LIMIT} seconds ago`)
+    }
+
+    return this.puppet.messageRecall(this.id)
+  }
+
+  /**
+   * Reply to this message by quoting it.
+   *
+   * The quote-reply will be sent if the puppet supports it,
+   * or the text like "「original」\n- - -\nreply" will be sent instead.
+   * The contents other than text can not quote the message, they will be sent by `say()`.
+   *
+   * @param {(string | Contact | FileBox | UrlLink | MiniProgram)} content
+   * @returns {Promise<void | Message>}
+   * @example
+   * await message.reply('Got it')
+   */
+  public async reply (
+    content : string | Contact | FileBox | UrlLink | MiniProgram,
+  ): Promise<void | Message> {
+    log.verbose('Message', 'reply(%s)', content)
+
+    if (typeof content !== 'string') {
+      return this.say(content as any)
+    }
+
+    const puppet = this.puppet
+    if (!isQuotePuppet(puppet)) {
+      return this.say(quoteText(this, content))
+    }
+
+    const from = this.from()
+    const room = this.room()
+
+    const conversation = room || from
+    if (!conversation) {
+      throw new Error('no room or contact to reply to')
+    }
+
+    const msgId = await this.wechaty.sendQueue.push(conversation, content, async () => {
+      return puppet.messageSendQuote({
         contactId : (from && from.id) || undefined,
         roomId    : (room && room.id) || undefined,
-      }, textOrContactOrFileOrUrlOrMini.payload)
-    } else {
-      throw new Error('unknown msg: ' + textOrContactOrFileOrUrlOrMini)
-    }
+      }, content, this.id)
+    })
     if (msgId) {
       const msg = this.wechaty.Message.load(msgId)
       await msg.ready()
+      await this.wechaty.archiveMessage(msg)
       return msg
     }
   }
@@ -631,75 +1152,157 @@ export class Message extends Accessory implements Sayable {
   public async mention (): Promise<Contact[]> {
     log.verbose('Message', 'mention()')
 
+    const info = await this.mentionInfo()
+    return info.contactList
+  }
+
+  /**
+   * Get the details of the mentions: the offsets and the matched names of them,
+   * whether mentioned all the members, and the unresolved ones.
+   *
+   * @returns {Promise<MessageMentionInfo>}
+   * @example
+   * const info = await message.mentionInfo()
+   * if (info.all) {
+   *   console.log('everyone was mentioned')
+   * }
+   * for (const mention of info.mentionList) {
+   *   console.log(mention.name, mention.start, mention.end, mention.contact)
+   * }
+   */
+  public async mentionInfo (): Promise<MessageMentionInfo> {
+    log.verbose('Message', 'mentionInfo()')
+
+    const info: MessageMentionInfo = {
+      all            : false,
+      contactList    : [],
+      mentionList    : [],
+      unresolvedList : [],
+    }
+
     const room = this.room()
     if (this.type() !== MessageType.Text || !room) {
-      return []
+      return info
     }
 
     // Use mention list if mention list is available
-    // otherwise, process the message and get the mention list
+    let idContactList: undefined | Contact[]
     if (this.payload && this.payload.mentionIdList) {
-      return Promise.all(this.payload.mentionIdList.map(async id => {
+      idContactList = await Promise.all(this.payload.mentionIdList.map(async id => {
         const contact = this.wechaty.Contact.load(id)
         await contact.ready()
         return contact
       }))
     }
 
-    // define magic code `8197` to identify @xxx
-    // const AT_SEPRATOR = String.fromCharCode(8197)
-    const AT_SEPRATOR = AT_SEPRATOR_REGEX
-
-    const atList = this.text().split(AT_SEPRATOR)
-    // console.log('atList: ', atList)
-    if (atList.length === 0) return []
-
-    // Using `filter(e => e.indexOf('@') > -1)` to filter the string without `@`
-    const rawMentionList = atList
-      .filter(str => str.includes('@'))
-      .map(str => multipleAt(str))
-
-    // convert 'hello@a@b@c' to [ 'c', 'b@c', 'a@b@c' ]
-    function multipleAt (str: string) {
-      str = str.replace(/^.*?@/, '@')
-      let name = ''
-      const nameList: string[] = []
-      str.split('@')
-        .filter(mentionName => !!mentionName)
-        .reverse()
-        .forEach(mentionName => {
-          // console.log('mentionName: ', mentionName)
-          name = mentionName + '@' + name
-          nameList.push(name.slice(0, -1)) // get rid of the `@` at beginning
-        })
-      return nameList
-    }
-
-    let mentionNameList: string[] = []
-    // Flatten Array
-    // see http://stackoverflow.com/a/10865042/1123955
-    mentionNameList = mentionNameList.concat.apply([], rawMentionList)
-    // filter blank string
-    mentionNameList = mentionNameList.filter(s => !!s)
-
-    log.verbose('Message', 'mention() text = "%s", mentionNameList = "%s"',
-      this.text(),
-      JSON.stringify(mentionNameList),
-    )
+    const text = this.text()
+
+    let start = text.indexOf('@')
+    while (start >= 0) {
+      const endList = mentionEndList(text, start)
 
-    const contactListNested = await Promise.all(
-      mentionNameList.map(
-        name => room.memberAll(name),
-      ),
+      let mention: undefined | MessageMention
+      for (const end of endList) {
+        const name = text.slice(start + 1, end)
+
+        if (MENTION_ALL_REGEX.test(name)) {
+          info.all = true
+          mention = { end, name, start }
+          break
+        }
+
+        const resolved = await this.resolveMention(room, name, idContactList)
+        if (resolved) {
+          mention = { end, name, start, ...resolved }
+          break
+        }
+      }
+
+      if (mention) {
+        info.mentionList.push(mention)
+        start = text.indexOf('@', mention.end)
+      } else {
+        if (endList.length) {
+          const end = endList[endList.length - 1]
+          info.unresolvedList.push({ end, name: text.slice(start + 1, end), start })
+        }
+        start = text.indexOf('@', start + 1)
+      }
+    }
+
+    if (idContactList) {
+      info.contactList = idContactList
+    } else {
+      for (const mention of info.mentionList) {
+        if (mention.contact && !info.contactList.includes(mention.contact)) {
+          info.contactList.push(mention.contact)
+        }
+      }
+    }
+
+    log.verbose('Message', 'mentionInfo() text = "%s", mentionList = "%s", unresolvedList = "%s"',
+      text,
+      info.mentionList.map(mention => mention.name).join(','),
+      info.unresolvedList.map(mention => mention.name).join(','),
     )
 
-    let contactList: Contact[] = []
-    contactList = contactList.concat.apply([], contactListNested)
+    return info
+  }
+
+  /**
+   * Get the text without the mentions, like `@bot`, for parsing the commands.
+   *
+   * Only the mentions which had been resolved (or the mention-all) will be removed.
+   *
+   * @returns {Promise<string>}
+   * @example
+   * // text: '@bot\u2005/weather beijing'
+   * const text = await message.textWithoutMentions()  // '/weather beijing'
+   */
+  public async textWithoutMentions (): Promise<string> {
+    log.verbose('Message', 'textWithoutMentions()')
+
+    const { mentionList } = await this.mentionInfo()
 
-    if (contactList.length === 0) {
-      log.silly('Message', `message.mention() can not found member using room.member() from mentionList, metion string: ${JSON.stringify(mentionNameList)}`)
+    let text = this.text()
+    for (const mention of [...mentionList].reverse()) {
+      const end = /[\u2005\u0020]/.test(text.charAt(mention.end))
+        ? mention.end + 1
+        : mention.end
+      text = text.slice(0, mention.start) + text.slice(end)
     }
-    return contactList
+    return text.trim()
+  }
+
+  private async resolveMention (
+    room           : Room,
+    name           : string,
+    idContactList? : Contact[],
+  ): Promise<undefined | Pick<MessageMention, 'contact' | 'matchedBy'>> {
+    if (idContactList) {
+      for (const contact of idContactList) {
+        if (await room.alias(contact).catch(() => null) === name) {
+          return { contact, matchedBy: 'roomAlias' }
+        }
+        if (contact.name() === name) {
+          return { contact, matchedBy: 'name' }
+        }
+        if (await contact.alias().catch(() => null) === name) {
+          return { contact, matchedBy: 'contactAlias' }
+        }
+      }
+      return undefined
+    }
+
+    const keyList: Array<keyof RoomMemberQueryFilter> = ['roomAlias', 'name', 'contactAlias']
+    for (const matchedBy of keyList) {
+      const [contact] = await room.memberAll({ [matchedBy]: name })
+      if (contact) {
+        await contact.ready()
+        return { contact, matchedBy }
+      }
+    }
+    return undefined
   }
 
   /**
@@ -804,9 +1407,9 @@ export class Message extends Accessory implements Sayable {
   /**
    * Forward the received message.
    *
-   * @param {(Sayable | Sayable[])} to Room or Contact
+   * @param {(Room | Contact | Array<Room | Contact>)} to Room or Contact, or the list of them
    * The recipient of the message, the room, or the contact
-   * @returns {Promise<void>}
+   * @returns {Promise<void>} - rejected if the message can not be forwarded to any of the recipients
    * @example
    * const bot = new Wechaty()
    * bot
@@ -818,12 +1421,23 @@ export class Message extends Accessory implements Sayable {
    *   }
    * })
    * .start()
+   * @example <caption>Forward to many recipients, see `Wechaty#broadcast()` for the report of every recipient</caption>
+   * await m.forward([room, contact])
    */
-  public async forward (to: Room | Contact): Promise<void> {
+  public async forward (to: Room | Contact | Array<Room | Contact>): Promise<void> {
     log.verbose('Message', 'forward(%s)', to)
 
-    let roomId
-    let contactId
+    if (Array.isArray(to)) {
+      const { failureList } = await this.wechaty.broadcast(this, to)
+      if (failureList.length) {
+        const targetList = failureList.map(failure => failure.target.toString())
+        throw new Error(`forward() failed for ${failureList.length} of ${to.length} recipients: ${targetList.join(', ')}`)
+      }
+      return
+    }
+
+    let roomId    : undefined | string
+    let contactId : undefined | string
 
     if (to instanceof Room) {
       roomId = to.id
@@ -832,13 +1446,13 @@ export class Message extends Accessory implements Sayable {
     }
 
     try {
-      await this.puppet.messageForward(
+      await this.wechaty.sendQueue.push(to, this, () => this.puppet.messageForward(
         {
           contactId,
           roomId,
         },
         this.id,
-      )
+      ))
     } catch (e) {
       log.error('Message', 'forward(%s) exception: %s', to, e)
       throw e
@@ -887,17 +1501,30 @@ export class Message extends Accessory implements Sayable {
    * > Tips:
    * This function is depending on the Puppet Implementation, see [puppet-compatible-table](https://github.com/Chatie/wechaty/wiki/Puppet#3-puppet-compatible-table)
    *
+   * @param {MessageFileOptions} [options] - set `cache` to get the file from the `mediaCache` of the bot
    * @returns {Promise<FileBox>}
    *
    * @example <caption>Save media file from a message</caption>
    * const fileBox = await message.toFileBox()
    * const fileName = fileBox.name
    * fileBox.toFile(fileName)
+   * @example <caption>Download the media file only once</caption>
+   * const bot = new Wechaty({ mediaCache: new MediaCache({ dir: '/var/cache/wechaty' }) })
+   * const fileBox = await message.toFileBox({ cache: true })
    */
-  public async toFileBox (): Promise<FileBox> {
+  public async toFileBox (options: MessageFileOptions = {}): Promise<FileBox> {
     if (this.type() === Message.Type.Text) {
       throw new Error('text message no file')
     }
+
+    if (options.cache) {
+      const mediaCache = this.wechaty.mediaCache
+      if (!mediaCache) {
+        throw new Error('no media cache, please set the `mediaCache` option of Wechaty.')
+      }
+      return mediaCache.fetch(this.id, () => this.puppet.messageFile(this.id))
+    }
+
     const fileBox = await this.puppet.messageFile(this.id)
     return fileBox
   }
@@ -967,4 +1594,149 @@ export class Message extends Accessory implements Sayable {
     return new MiniProgram(miniProgramPayload)
   }
 
+  /**
+   * Get the content of the message by its type, in one call.
+   *
+   * The `type` of the content is the `MessageType`,
+   * switch on it to let TypeScript narrow the content and check the exhaustiveness.
+   *
+   * @returns {Promise<MessageContent>}
+   * @example
+   * const content = await message.toContent()
+   * switch (content.type) {
+   *   case bot.Message.Type.Text:
+   *     console.log(content.text)
+   *     break
+   *   case bot.Message.Type.Image:
+   *     await content.file.toFile()
+   *     break
+   *   case bot.Message.Type.Url:
+   *     console.log(content.urlLink.url())
+   *     break
+   *   // ...
+   * }
+   */
+  public async toContent (): Promise<MessageContent> {
+    log.verbose('Message', 'toContent()')
+
+    const type = this.type()
+
+    switch (type) {
+      case MessageType.Text:
+        return { text: this.text(), type }
+
+      case MessageType.Attachment:
+      case MessageType.Audio:
+      case MessageType.Emoticon:
+      case MessageType.Image:
+      case MessageType.Video:
+        return { file: await this.toFileBox(), type }
+
+      case MessageType.Contact:
+        return { contact: await this.toContact(), type }
+
+      case MessageType.Url:
+        return { type, urlLink: await this.toUrlLink() }
+
+      case MessageType.MiniProgram:
+        return { miniProgram: await this.toMiniProgram(), type }
+
+      case MessageType.Recalled:
+        return { message: await this.toRecalled(), type }
+
+      case MessageType.ChatHistory:
+      case MessageType.Location:
+      case MessageType.Money:
+      case MessageType.RedEnvelope:
+      case MessageType.Transfer:
+      case MessageType.Unknown:
+        return { text: this.text(), type }
+
+      default:
+        throw new Error('unknown message type: ' + type)
+    }
+  }
+
+}
+
+/**
+ * The text of the quote message: "「original」\n- - -\nreply"
+ */
+function quoteText (
+  message : Message,
+  reply   : string,
+): string {
+  const original = message.type() === MessageType.Text
+    ? message.text()
+    : `[${MessageType[message.type()]}]`
+  return `「${original}」\n${QUOTE_SEPARATOR}\n${reply}`
+}
+
+function parseQuoteText (text: string): null | { original: string, reply: string } {
+  const matched = /^「([\s\S]+)」\n-( -)+\n([\s\S]*)$/.exec(text)
+  if (!matched) {
+    return null
+  }
+  return {
+    original : matched[1],
+    reply    : matched[3],
+  }
+}
+
+/**
+ * The candidate end offsets of the `@name` at `start`, the longest one first.
+ *
+ * The name might contain `@` or spaces, like `@a@b` or `@John Smith`,
+ * so the candidates end at the spaces and the `@`s, until the magic code `8197` or the word limit.
+ */
+function mentionEndList (
+  text  : string,
+  start : number,
+): number[] {
+  // define magic code `8197` to identify @xxx
+  const magic = text.indexOf('\u2005', start + 1)
+  const limit = magic < 0 ? text.length : magic
+
+  const endList: number[] = []
+  for (let end = start + 2; end <= limit && endList.length < MAX_MENTION_WORD_NUM; end++) {
+    const char = text.charAt(end)
+    const isEnd = end === limit
+      || /\s/.test(char)
+      || (char === '@' && !/\s/.test(text.charAt(end - 1)))
+    if (isEnd) {
+      endList.push(end)
+    }
+  }
+  return endList.reverse()
+}
+
+function matchFilter (
+  message : Message,
+  filter  : MessageUserQueryFilter,
+): boolean {
+  return matchArchiveRecord(
+    toArchiveRecord(message),
+    toArchiveQuery(filter),
+  )
+}
+
+function needArchiveQuery (filter: MessageUserQueryFilter): boolean {
+  return !!(filter.since || filter.until || filter.search)
+    || filter.offset !== undefined
+    || filter.limit !== undefined
+}
+
+function toArchiveQuery (filter: MessageUserQueryFilter): MessageArchiveQuery {
+  return {
+    fromId : filter.from && filter.from.id,
+    limit  : filter.limit,
+    offset : filter.offset,
+    roomId : filter.room && filter.room.id,
+    search : filter.search,
+    since  : filter.since,
+    text   : filter.text,
+    toId   : filter.to && filter.to.id,
+    type   : filter.type,
+    until  : filter.until,
+  }
 }
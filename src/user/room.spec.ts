@@ -30,7 +30,9 @@ import {
 }                       from 'wechaty-puppet'
 import { PuppetMock }   from 'wechaty-puppet-mock'
 
+import { NotSupportedError } from '../errors'
 import { Wechaty }      from '../wechaty'
+import { Room }         from './room'
 
 test('findAll()', async t => {
   const EXPECTED_ROOM_ID      = 'test-id'
@@ -59,6 +61,50 @@ test('findAll()', async t => {
   await wechaty.stop()
 })
 
+test('findAll() with member count, owner, member, sorting and pagination', async t => {
+  const sandbox = sinon.createSandbox()
+
+  const puppet = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+  await wechaty.start()
+
+  const selfId = puppet.selfId()
+  const ROOM_PAYLOAD_LIST = [
+    { id: 'room1', memberIdList: ['c1', 'c2', 'c3'], ownerId: selfId, topic: 'team-b' },
+    { id: 'room2', memberIdList: ['c1'],             ownerId: 'c1',   topic: 'team-a' },
+    { id: 'room3', memberIdList: ['c2', 'c3'],       ownerId: selfId, topic: 'team-c' },
+    { id: 'room4', memberIdList: ['c1', 'c2'],       ownerId: selfId, topic: 'family' },
+  ] as RoomPayload[]
+
+  const roomSearch = sandbox.stub(puppet, 'roomSearch').callsFake(async (query: any) => ROOM_PAYLOAD_LIST
+    .filter(payload => !query || !query.topic || query.topic.test(payload.topic))
+    .map(payload => payload.id),
+  )
+  sandbox.stub(puppet, 'roomPayload').callsFake(async (id: string) => ROOM_PAYLOAD_LIST.filter(p => p.id === id)[0])
+  sandbox.stub(puppet, 'roomMemberList').callsFake(async (id: string) => ROOM_PAYLOAD_LIST.filter(p => p.id === id)[0].memberIdList)
+  sandbox.stub(puppet, 'contactPayload').callsFake(async id => ({ id } as ContactPayload))
+
+  const ids = (roomList: Room[]) => roomList.map(room => room.id)
+
+  const topicRoomList = await wechaty.Room.findAll({ minMember: 2, topic: /^team-/ })
+  t.deepEqual(ids(topicRoomList), ['room1', 'room3'], 'should filter by the topic and the min member count')
+  t.deepEqual(roomSearch.firstCall.args, [{ topic: /^team-/ }], 'should only pass the puppet query to the puppet')
+
+  const ownedRoomList = await wechaty.Room.findAll({
+    member  : wechaty.Contact.load('c1'),
+    order   : 'desc',
+    orderBy : 'memberCount',
+    owner   : true,
+  })
+  t.deepEqual(ids(ownedRoomList), ['room1', 'room4'], 'should filter by the owner and the member, sorted by the member count')
+
+  const pageRoomList = await wechaty.Room.findAll({ limit: 2, maxMember: 2, offset: 1, orderBy: 'topic' })
+  t.deepEqual(ids(pageRoomList), ['room2', 'room3'], 'should sort by the topic and paginate')
+
+  await wechaty.stop()
+  sandbox.restore()
+})
+
 test('say()', async () => {
 
   const sandbox = sinon.createSandbox()
@@ -143,3 +189,84 @@ test('say()', async () => {
 
   await wechaty.stop()
 })
+
+test('say() long text with textSplit', async t => {
+  const sandbox = sinon.createSandbox()
+
+  const puppet = new PuppetMock()
+  const wechaty = new Wechaty({
+    puppet,
+    textSplit: { maxLength: 30 },
+  })
+
+  await wechaty.start()
+
+  sandbox.stub(puppet, 'roomMemberPayload').resolves({ id: 'contact1', roomAlias: 'huan' } as RoomMemberPayload)
+  sandbox.stub(puppet, 'roomPayload').resolves({ topic: 'topic' } as RoomPayload)
+  sandbox.stub(puppet, 'contactPayload').callsFake(async id => ({ id } as ContactPayload))
+  const sendText = sandbox.stub(puppet, 'messageSendText').resolves()
+
+  const room    = wechaty.Room.load('roomId')
+  const contact = wechaty.Contact.load('contact1')
+  await contact.sync()
+  await room.sync()
+
+  await room.say('First sentence. Second sentence.', contact)
+
+  t.deepEqual(sendText.getCalls().map(call => call.args.slice(1)), [
+    ['@huan First sentence. (1/2)', ['contact1']],
+    ['Second sentence. (2/2)', []],
+  ], 'should split the text into numbered parts, with the mentions in the first part only')
+
+  await wechaty.stop()
+  sandbox.restore()
+})
+
+test('admin operations', async t => {
+  const sandbox = sinon.createSandbox()
+
+  const puppet = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+  await wechaty.start()
+
+  let ownerId = 'contact1'
+  sandbox.stub(puppet, 'roomPayload').callsFake(async () => ({ memberIdList: [], ownerId, topic: 'topic' } as any as RoomPayload))
+  sandbox.stub(puppet, 'roomMemberList').resolves([])
+  sandbox.stub(puppet, 'contactPayload').callsFake(async id => ({ id } as ContactPayload))
+
+  const room    = wechaty.Room.load('roomId')
+  const contact = wechaty.Contact.load('contact2')
+  await room.ready()
+
+  try {
+    await room.transferOwner(contact)
+    t.fail('should reject')
+  } catch (e) {
+    t.true(e instanceof NotSupportedError, 'should reject with NotSupportedError if the puppet does not support it')
+    t.equal(e.feature, 'roomOwnerTransfer', 'should tell which feature is not supported')
+  }
+
+  const roomOwnerTransfer = sinon.stub().callsFake(async (_: string, contactId: string) => { ownerId = contactId })
+  const roomAdminList     = sinon.stub().resolves(['contact3'])
+  const roomAdminAdd      = sinon.stub().resolves()
+  Object.assign(puppet, { roomAdminAdd, roomAdminList, roomOwnerTransfer })
+
+  await room.transferOwner(contact)
+  t.equal(room.owner()!.id, 'contact2', 'should reload the owner after transferred')
+
+  const adminList = await room.admins()
+  t.deepEqual(adminList.map(c => c.id), ['contact3'], 'should get the admins')
+
+  await room.addAdmin(contact)
+  t.deepEqual(roomAdminAdd.firstCall.args, ['roomId', 'contact2'], 'should add the admin by the puppet')
+
+  try {
+    await room.setInviteConfirm(true)
+    t.fail('should reject')
+  } catch (e) {
+    t.true(e instanceof NotSupportedError, 'should reject the operation which the puppet does not support')
+  }
+
+  await wechaty.stop()
+  sandbox.restore()
+})
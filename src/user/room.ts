@@ -33,6 +33,25 @@ import {
   log,
   Raven,
 }                       from '../config'
+import {
+  NotSupportedError,
+}                       from '../errors'
+import {
+  RoomComposer,
+  RoomComposerOptions,
+}                       from '../room-composer'
+import {
+  RoomRosterEvent,
+}                       from '../room-roster'
+import {
+  RoomStatsQuery,
+  RoomStatsReport,
+}                       from '../room-stats'
+import {
+  parseSchemaJson,
+  SCHEMA_VERSION,
+  SchemaJson,
+}                       from '../schema'
 import {
   Sayable,
 }                       from '../types'
@@ -43,11 +62,44 @@ import { UrlLink }        from './url-link'
 import { MiniProgram }    from './mini-program'
 
 import {
+  Puppet,
   RoomMemberQueryFilter,
   RoomPayload,
   RoomQueryFilter,
 }                         from 'wechaty-puppet'
-import { Message } from './message'
+import {
+  Message,
+  MessageUserQueryFilter,
+  MessageWaitOptions,
+}                         from './message'
+
+/**
+ * The JSON document of Room, see `SCHEMA_VERSION` for the details
+ */
+export type RoomJson = SchemaJson<'Room', RoomPayload>
+
+/**
+ * The `RoomQueryFilter` of the puppet, with the filters and the pagination done by Wechaty
+ */
+export interface RoomUserQueryFilter extends RoomQueryFilter {
+  minMember? : number,
+  maxMember? : number,
+  /**
+   * `true` for the rooms owned by the bot, `false` for the others
+   */
+  owner?     : boolean,
+  /**
+   * The rooms which have this contact as a member
+   */
+  member?    : Contact,
+  orderBy?   : 'topic' | 'memberCount',
+  /**
+   * Default: 'asc'
+   */
+  order?     : 'asc' | 'desc',
+  offset?    : number,
+  limit?     : number,
+}
 
 export const ROOM_EVENT_DICT = {
   invite: 'tbw',
@@ -57,6 +109,26 @@ export const ROOM_EVENT_DICT = {
 }
 export type RoomEventName = keyof typeof ROOM_EVENT_DICT
 
+/**
+ * There's no room admin API in the wechaty-puppet yet,
+ * the puppets which support the admin operations can implement these methods.
+ */
+interface RoomAdminPuppet {
+  roomAdminAdd (roomId: string, contactId: string)       : Promise<void>
+  roomAdminList (roomId: string)                         : Promise<string[]>
+  roomAdminRemove (roomId: string, contactId: string)    : Promise<void>
+  roomInviteConfirm (roomId: string, enabled: boolean)   : Promise<void>
+  roomOwnerTransfer (roomId: string, contactId: string)  : Promise<void>
+}
+
+function isRoomAdminPuppet<M extends keyof RoomAdminPuppet> (
+  puppet : Puppet,
+  method : M,
+): puppet is Puppet & Pick<RoomAdminPuppet, M> {
+  return method in puppet
+    && typeof (puppet as Puppet & Partial<RoomAdminPuppet>)[method] === 'function'
+}
+
 /**
  * All wechat rooms(groups) will be encapsulated as a Room.
  *
@@ -116,10 +188,25 @@ export class Room extends Accessory implements Sayable {
    * @property   {string} topic
    */
 
+  /**
+   * The filter to find the room, with more conditions, sorting and pagination
+   *
+   * @typedef    RoomUserQueryFilter
+   * @property   {string | RegExp} topic
+   * @property   {number}  minMember
+   * @property   {number}  maxMember
+   * @property   {boolean} owner     - whether the bot is the owner of the room
+   * @property   {Contact} member    - the contact is a member of the room
+   * @property   {string}  orderBy   - 'topic' or 'memberCount'
+   * @property   {string}  order     - 'asc' or 'desc'
+   * @property   {number}  offset
+   * @property   {number}  limit
+   */
+
   /**
    * Find room by by filter: {topic: string | RegExp}, return all the matched room
    * @static
-   * @param {RoomQueryFilter} [query]
+   * @param {RoomUserQueryFilter} [query]
    * @returns {Promise<Room[]>}
    * @example
    * const bot = new Wechaty()
@@ -127,17 +214,35 @@ export class Room extends Accessory implements Sayable {
    * // after logged in
    * const roomList = await bot.Room.findAll()                    // get the room list of the bot
    * const roomList = await bot.Room.findAll({topic: 'wechaty'})  // find all of the rooms with name 'wechaty'
+   * @example <caption>The 10 largest rooms owned by the bot, which the contact is in</caption>
+   * const roomList = await bot.Room.findAll({
+   *   limit   : 10,
+   *   member  : contact,
+   *   order   : 'desc',
+   *   orderBy : 'memberCount',
+   *   owner   : true,
+   * })
    */
   public static async findAll<T extends typeof Room> (
     this   : T,
-    query? : RoomQueryFilter,
+    query? : RoomUserQueryFilter,
   ): Promise<Array<T['prototype']>> {
     log.verbose('Room', 'findAll(%s)', JSON.stringify(query) || '')
 
     const invalidDict: { [id: string]: true } = {}
 
+    /**
+     * The puppet only supports one of the `id` and `topic`
+     */
+    let puppetQuery: undefined | RoomQueryFilter
+    if (query && query.id) {
+      puppetQuery = { id: query.id }
+    } else if (query && query.topic) {
+      puppetQuery = { topic: query.topic }
+    }
+
     try {
-      const roomIdList = await this.puppet.roomSearch(query)
+      const roomIdList = await this.puppet.roomSearch(puppetQuery)
       const roomList = roomIdList.map(id => this.load(id))
       await Promise.all(
         roomList.map(
@@ -149,7 +254,11 @@ export class Room extends Accessory implements Sayable {
         ),
       )
 
-      return roomList.filter(room => !invalidDict[room.id])
+      const validRoomList = roomList.filter(room => !invalidDict[room.id])
+      if (!query || !needLocalQuery(query)) {
+        return validRoomList
+      }
+      return queryRoomList(validRoomList, query)
 
     } catch (e) {
       log.verbose('Room', 'findAll() rejected: %s', e.message)
@@ -174,7 +283,7 @@ export class Room extends Accessory implements Sayable {
 
   public static async find<T extends typeof Room> (
     this  : T,
-    query : string | RoomQueryFilter,
+    query : string | RoomUserQueryFilter,
   ): Promise<T['prototype'] | null> {
     log.verbose('Room', 'find(%s)', JSON.stringify(query))
 
@@ -256,6 +365,29 @@ export class Room extends Accessory implements Sayable {
     return newRoom
   }
 
+  /**
+   * Rehydrate the Room from the JSON document produced by `toJSON()`.
+   *
+   * The room will be loaded by `load(id)`, and be ready without asking the puppet if the document has the payload.
+   *
+   * @param {string | RoomJson} json
+   * @example
+   * const room = bot.Room.fromJSON(json)
+   */
+  public static fromJSON<T extends typeof Room> (
+    this : T,
+    json : string | RoomJson,
+  ): T['prototype'] {
+    log.verbose('Room', 'static fromJSON(%s)', typeof json === 'string' ? json : json.id)
+
+    const doc = parseSchemaJson<'Room', RoomPayload>('Room', json)
+    const room = this.load(doc.id)
+    if (doc.payload && !room.isReady()) {
+      room.payload = doc.payload
+    }
+    return room
+  }
+
   /**
    * @private
    *
@@ -300,6 +432,22 @@ export class Room extends Accessory implements Sayable {
     return `Room<${this.payload.topic || 'loadind...'}>`
   }
 
+  /**
+   * Get the JSON document of the room, which can be rehydrated by `Room.fromJSON()`.
+   *
+   * `JSON.stringify(room)` will call this method.
+   *
+   * @returns {RoomJson}
+   */
+  public toJSON (): RoomJson {
+    return {
+      id      : this.id,
+      payload : this.payload,
+      schema  : 'Room',
+      version : SCHEMA_VERSION,
+    }
+  }
+
   public async * [Symbol.asyncIterator] (): AsyncIterableIterator<Contact> {
     const memberList = await this.memberList()
     for (const contact of memberList) {
@@ -319,12 +467,47 @@ export class Room extends Accessory implements Sayable {
   /**
    * Force reload data for Room, Sync data from lowlevel API again.
    *
+   * If the `roomRoster` option of Wechaty had been enabled,
+   * the `join` and `leave` events will be emitted for the member changes missed by the puppet.
+   *
    * @returns {Promise<void>}
    * @example
    * await room.sync()
    */
   public async sync (): Promise<void> {
     await this.ready(true)
+    await this.wechaty.reconcileRoom(this)
+  }
+
+  /**
+   * The member changes of the room, from the oldest to the latest.
+   * Only available when the `roomRoster` option of Wechaty had been enabled.
+   *
+   * @returns {Promise<RoomRosterEvent[]>}
+   * @example
+   * const bot = new Wechaty({ roomRoster: true })
+   * const history = await room.memberHistory()
+   * const leaveList = history.filter(event => event.type === 'leave')
+   */
+  public async memberHistory (): Promise<RoomRosterEvent[]> {
+    log.verbose('Room', 'memberHistory()')
+    return this.wechaty.roomMemberHistory(this)
+  }
+
+  /**
+   * The activity statistics of the room: the message counts of every member, and the join/leave history.
+   * Only available when the `roomStats` option of Wechaty had been enabled.
+   *
+   * @param {RoomStatsQuery} [query] - `since` for the time range, `limit` for the top members
+   * @returns {Promise<RoomStatsReport>}
+   * @example <caption>The top 10 active members in the last 7 days</caption>
+   * const bot = new Wechaty({ roomStats: true })
+   * const stats = await room.stats({ limit: 10, since: new Date(Date.now() - 7 * 24 * 3600 * 1000) })
+   * stats.memberList.forEach((member, i) => console.log(`#${i + 1} ${member.contact.name()}: ${member.messageCount}`))
+   */
+  public async stats (query?: RoomStatsQuery): Promise<RoomStatsReport> {
+    log.verbose('Room', 'stats(%s)', JSON.stringify(query) || '')
+    return this.wechaty.roomStatsReport(this, query)
   }
 
   /**
@@ -379,6 +562,7 @@ export class Room extends Accessory implements Sayable {
   public say (text:     string, ...mentionList: Contact[])               : Promise<void | Message>
   public say (textList: TemplateStringsArray, ...mentionList: Contact[]) : Promise<void | Message>
   public say (file:     FileBox)                                         : Promise<void | Message>
+  public say (contact:  Contact)                                         : Promise<void | Message>
   public say (url:      UrlLink)                                         : Promise<void | Message>
   public say (mini:     MiniProgram)                                     : Promise<void | Message>
 
@@ -468,73 +652,128 @@ export class Room extends Accessory implements Sayable {
       mentionList.join(', '),
     )
 
-    let text: string
-    let msgId: string | void
+    let mentionText = ''
     if (typeof something === 'string') {
-
       if (mentionList.length > 0) {
         const AT_SEPARATOR = FOUR_PER_EM_SPACE
         const mentionAlias = await Promise.all(mentionList.map(async contact =>
           '@' + (await this.alias(contact) || contact.name())
         ))
-        const mentionText = mentionAlias.join(AT_SEPARATOR)
-
-        text = mentionText + ' ' + something
-      } else {
-        text = something
+        mentionText = mentionAlias.join(AT_SEPARATOR) + ' '
       }
-      const receiver = {
-        contactId : (mentionList.length && mentionList[0].id) || undefined,
-        roomId    : this.id,
-      }
-      msgId = await this.puppet.messageSendText(
-        receiver,
-        text,
-        mentionList.map(c => c.id),
-      )
-    } else if (something instanceof FileBox) {
-      /**
-       * 2. File Message
-       */
-      msgId = await this.puppet.messageSendFile({
-        roomId: this.id,
-      }, something)
-    } else if (something instanceof Contact) {
-      /**
-       * 3. Contact Card
-       */
-      msgId = await this.puppet.messageSendContact({
-        roomId: this.id,
-      }, something.id)
-    } else if (something instanceof UrlLink) {
-      /**
-       * 4. Link Message
-       */
-      msgId = await this.puppet.messageSendUrl({
-        contactId : this.id,
-      }, something.payload)
-    } else if (something instanceof MiniProgram) {
+
       /**
-       * 5. Mini Program
+       * Only the first part has the mentions
        */
-      msgId = await this.puppet.messageSendMiniProgram({
-        contactId : this.id,
-      }, something.payload)
-    } else if (something instanceof Array) {
-      msgId = await this.sayTemplateStringsArray(
-        something,
-        ...mentionList,
-      )
-    } else {
-      throw new Error('arg unsupported: ' + something)
+      const textList = this.wechaty.splitText(something, mentionText)
+      if (textList.length > 1) {
+        let msg = await this.say(textList[0], ...mentionList)
+        for (const text of textList.slice(1)) {
+          msg = await this.say(text)
+        }
+        return msg
+      }
     }
+
+    const msgId = await this.wechaty.sendQueue.push(this, something, async () => {
+      if (typeof something === 'string') {
+        const text = mentionText + something
+        const receiver = {
+          contactId : (mentionList.length && mentionList[0].id) || undefined,
+          roomId    : this.id,
+        }
+        return this.puppet.messageSendText(
+          receiver,
+          text,
+          mentionList.map(c => c.id),
+        )
+      } else if (something instanceof FileBox) {
+        /**
+         * 2. File Message
+         */
+        return this.puppet.messageSendFile({
+          roomId: this.id,
+        }, something)
+      } else if (something instanceof Contact) {
+        /**
+         * 3. Contact Card
+         */
+        return this.puppet.messageSendContact({
+          roomId: this.id,
+        }, something.id)
+      } else if (something instanceof UrlLink) {
+        /**
+         * 4. Link Message
+         */
+        return this.puppet.messageSendUrl({
+          contactId : this.id,
+        }, something.payload)
+      } else if (something instanceof MiniProgram) {
+        /**
+         * 5. Mini Program
+         */
+        return this.puppet.messageSendMiniProgram({
+          contactId : this.id,
+        }, something.payload)
+      } else if (something instanceof Array) {
+        return this.sayTemplateStringsArray(
+          something,
+          ...mentionList,
+        )
+      } else {
+        throw new Error('arg unsupported: ' + something)
+      }
+    })
     if (msgId) {
       const msg = this.wechaty.Message.load(msgId)
       await msg.ready()
+      await this.wechaty.archiveMessage(msg)
       return msg
     }
   }
 
+  /**
+   * Build a message with mentions and rich contents, then send it by `send()`.
+   *
+   * The mentions are separated by the `FOUR_PER_EM_SPACE`, and the long text will be sent in chunks.
+   *
+   * @param {RoomComposerOptions} [options] - `maxLength` of the text chunks
+   * @returns {RoomComposer}
+   * @example
+   * await room.compose()
+   *   .text('Hi ')
+   *   .mention(contact)
+   *   .text(', see ')
+   *   .link(urlLink)
+   *   .send()
+   */
+  public compose (options?: RoomComposerOptions): RoomComposer {
+    log.verbose('Room', 'compose(%s)', JSON.stringify(options) || '')
+    return new RoomComposer(this, options)
+  }
+
+  /**
+   * Wait for the next message in the room which matches the filter.
+   *
+   * @param {MessageUserQueryFilter} [filter] - the `room` of the filter will always be this room
+   * @param {MessageWaitOptions} [options] - `timeout` in milliseconds, default 60 seconds
+   * @returns {Promise<Message>} - rejected with `TimeoutError` if there's no message matched in time.
+   * @example
+   * await room.say('Are you ready?', contact)
+   * const answer = await room.waitFor({ from: contact, text: /yes|no/ })
+   */
+  public async waitFor (
+    filter   : MessageUserQueryFilter = {},
+    options? : MessageWaitOptions,
+  ): Promise<Message> {
+    log.verbose('Room', 'waitFor(%s, %s)', JSON.stringify(filter), JSON.stringify(options) || '')
+
+    return this.wechaty.Message.waitFor({
+      ...filter,
+      room: this,
+    }, options)
+  }
+
   private async sayTemplateStringsArray (
     textList: TemplateStringsArray,
     ...mentionList: Contact[]
@@ -1112,6 +1351,93 @@ export class Room extends Accessory implements Sayable {
     return owner
   }
 
+  /**
+   * Transfer the owner of the room to the member.
+   * > Tips: It only works when bot is the owner of the room.
+   *
+   * @param {Contact} contact
+   * @returns {Promise<void>}
+   * @throws {NotSupportedError} - if the puppet does not support it
+   * @example
+   * await room.transferOwner(contact)
+   * console.log(`the owner of ${room} is ${room.owner()} now`)
+   */
+  public async transferOwner (contact: Contact): Promise<void> {
+    log.verbose('Room', 'transferOwner(%s)', contact)
+
+    await this.adminPuppet('roomOwnerTransfer').roomOwnerTransfer(this.id, contact.id)
+    await this.ready(true)
+  }
+
+  /**
+   * Get the admins of the room, not including the owner.
+   *
+   * @returns {Promise<Contact[]>}
+   * @throws {NotSupportedError} - if the puppet does not support it
+   * @example
+   * const adminList = await room.admins()
+   */
+  public async admins (): Promise<Contact[]> {
+    log.verbose('Room', 'admins()')
+
+    const adminIdList = await this.adminPuppet('roomAdminList').roomAdminList(this.id)
+    const adminList   = adminIdList.map(id => this.wechaty.Contact.load(id))
+    await Promise.all(adminList.map(contact => contact.ready()))
+    return adminList
+  }
+
+  /**
+   * Make the member an admin of the room.
+   * > Tips: It only works when bot is the owner of the room.
+   *
+   * @param {Contact} contact
+   * @returns {Promise<void>}
+   * @throws {NotSupportedError} - if the puppet does not support it
+   */
+  public async addAdmin (contact: Contact): Promise<void> {
+    log.verbose('Room', 'addAdmin(%s)', contact)
+    await this.adminPuppet('roomAdminAdd').roomAdminAdd(this.id, contact.id)
+  }
+
+  /**
+   * Remove the member from the admins of the room.
+   * > Tips: It only works when bot is the owner of the room.
+   *
+   * @param {Contact} contact
+   * @returns {Promise<void>}
+   * @throws {NotSupportedError} - if the puppet does not support it
+   */
+  public async removeAdmin (contact: Contact): Promise<void> {
+    log.verbose('Room', 'removeAdmin(%s)', contact)
+    await this.adminPuppet('roomAdminRemove').roomAdminRemove(this.id, contact.id)
+  }
+
+  /**
+   * Whether the invitations by the members need to be confirmed by the owner or admins.
+   * > Tips: It only works when bot is the owner or an admin of the room.
+   *
+   * @param {boolean} enabled
+   * @returns {Promise<void>}
+   * @throws {NotSupportedError} - if the puppet does not support it
+   * @example
+   * await room.setInviteConfirm(true)
+   */
+  public async setInviteConfirm (enabled: boolean): Promise<void> {
+    log.verbose('Room', 'setInviteConfirm(%s)', enabled)
+    await this.adminPuppet('roomInviteConfirm').roomInviteConfirm(this.id, enabled)
+  }
+
+  /**
+   * The puppet which implements the admin operation, or throw `NotSupportedError`.
+   */
+  private adminPuppet<M extends keyof RoomAdminPuppet> (method: M): Pick<RoomAdminPuppet, M> {
+    const puppet = this.puppet
+    if (!isRoomAdminPuppet(puppet, method)) {
+      throw new NotSupportedError(`${puppet} does not support ${method}()`, method)
+    }
+    return puppet
+  }
+
   public async avatar (): Promise<FileBox> {
     log.verbose('Room', 'avatar()')
 
@@ -1119,3 +1445,75 @@ export class Room extends Accessory implements Sayable {
   }
 
 }
+
+function needLocalQuery (query: RoomUserQueryFilter): boolean {
+  return !!(query.id && query.topic)
+    || query.minMember !== undefined
+    || query.maxMember !== undefined
+    || query.owner !== undefined
+    || !!query.member
+    || !!query.orderBy
+    || query.offset !== undefined
+    || query.limit !== undefined
+}
+
+/**
+ * Filter, sort and paginate the rooms by the member lists, which had been cached by the puppet after `room.ready()`
+ */
+async function queryRoomList<R extends Room> (
+  roomList : R[],
+  query    : RoomUserQueryFilter,
+): Promise<R[]> {
+  const infoList = await Promise.all(roomList.map(async room => ({
+    memberIdList : await room.puppet.roomMemberList(room.id),
+    room,
+    topic        : await room.topic(),
+  })))
+
+  const matchedList = infoList.filter(info => {
+    const memberCount = info.memberIdList.length
+
+    if (query.id && query.topic) {
+      const matched = typeof query.topic === 'string'
+        ? info.topic === query.topic
+        : query.topic.test(info.topic)
+      if (!matched) {
+        return false
+      }
+    }
+    if (query.minMember !== undefined && memberCount < query.minMember) {
+      return false
+    }
+    if (query.maxMember !== undefined && memberCount > query.maxMember) {
+      return false
+    }
+    if (query.owner !== undefined) {
+      const owner = info.room.owner()
+      const isOwner = !!owner && owner.id === info.room.puppet.selfId()
+      if (isOwner !== query.owner) {
+        return false
+      }
+    }
+    if (query.member && !info.memberIdList.includes(query.member.id)) {
+      return false
+    }
+    return true
+  })
+
+  if (query.orderBy) {
+    const direction = query.order === 'desc' ? -1 : 1
+    matchedList.sort((a, b) => direction * (query.orderBy === 'topic'
+      ? a.topic.localeCompare(b.topic)
+      : a.memberIdList.length - b.memberIdList.length
+    ))
+  }
+
+  const offset = query.offset || 0
+  const end    = query.limit === undefined
+    ? undefined
+    : offset + query.limit
+
+  return matchedList
+    .slice(offset, end)
+    .map(info => info.room)
+}
@@ -0,0 +1,114 @@
+#!/usr/bin/env ts-node
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+// tslint:disable:no-shadowed-variable
+import fs    from 'fs'
+import http  from 'http'
+import os    from 'os'
+import path  from 'path'
+
+import test  from 'blue-tape'
+
+import { PuppetMock } from 'wechaty-puppet-mock'
+
+import {
+  Webhook,
+  webhookSignature,
+}                     from './webhook'
+import { Wechaty }    from './wechaty'
+
+const SECRET = 'secret'
+
+interface Received {
+  headers : http.IncomingHttpHeaders,
+  body    : string,
+}
+
+async function createServer (status: number) {
+  const receivedList: Received[] = []
+  const server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', chunk => { body += chunk })
+    req.on('end', () => {
+      receivedList.push({ body, headers: req.headers })
+      res.writeHead(status)
+      res.end()
+    })
+  })
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve))
+  const address = server.address() as { port: number }
+  return {
+    close : () => new Promise(resolve => server.close(resolve)),
+    receivedList,
+    url   : `http://127.0.0.1:${address.port}/hook`,
+  }
+}
+
+test('deliver events with signature', async t => {
+  const server = await createServer(200)
+
+  const puppet  = new PuppetMock()
+  const wechaty = new Wechaty({ puppet })
+
+  const webhook = new Webhook({
+    events : ['scan'],
+    secret : SECRET,
+    url    : server.url,
+  })
+  wechaty.use(webhook)
+  await wechaty.start() // PuppetMock will emit scan
+
+  await new Promise(resolve => setTimeout(resolve, 100))
+
+  t.equal(server.receivedList.length, 1, 'should deliver only the subscribed event')
+  const { body, headers } = server.receivedList[0]
+  const delivery = JSON.parse(body)
+
+  t.equal(delivery.event, 'scan', 'should deliver the event name')
+  t.equal(delivery.data.qrcode, 'https://not-exist.com', 'should deliver the event data')
+  t.equal(headers['x-wechaty-event'], 'scan', 'should set the event header')
+  t.equal(headers['x-wechaty-signature'], 'sha256=' + webhookSignature(SECRET, body), 'should sign the body')
+
+  await wechaty.stop()
+  await server.close()
+})
+
+test('dead letters', async t => {
+  const server = await createServer(500)
+  const deadLetterFile = path.join(os.tmpdir(), `wechaty-webhook-${process.pid}.jsonl`)
+
+  const webhook = new Webhook({
+    deadLetterFile,
+    retries : 1,
+    url     : server.url,
+  })
+
+  const delivered = await webhook.deliver('login', { contactId: 'id' })
+
+  t.false(delivered, 'should fail to deliver')
+  t.equal(server.receivedList.length, 2, 'should retry')
+  t.equal(webhook.deadLetters().length, 1, 'should keep the dead letter')
+  t.equal(webhook.deadLetters()[0].error, 'webhook responded 500', 'should record the error')
+
+  const lineList = fs.readFileSync(deadLetterFile, 'utf8').trim().split('\n')
+  t.equal(JSON.parse(lineList[0]).delivery.event, 'login', 'should append the dead letter to the file')
+
+  fs.unlinkSync(deadLetterFile)
+  await server.close()
+})
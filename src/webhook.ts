@@ -0,0 +1,335 @@
+/**
+ *   Wechaty - https://github.com/chatie/wechaty
+ *
+ *   @copyright 2016-2018 Huan LI <zixia@zixia.net>
+ *
+ *   Licensed under the Apache License, Version 2.0 (the "License");
+ *   you may not use this file except in compliance with the License.
+ *   You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *   Unless required by applicable law or agreed to in writing, software
+ *   distributed under the License is distributed on an "AS IS" BASIS,
+ *   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *   See the License for the specific language governing permissions and
+ *   limitations under the License.
+ *
+ */
+import crypto from 'crypto'
+import fs     from 'fs'
+import http   from 'http'
+import https  from 'https'
+import {
+  URL,
+}               from 'url'
+
+import cuid from 'cuid'
+
+import {
+  log,
+}                 from './config'
+import {
+  tryWait,
+}                 from './helper-functions'
+import {
+  WechatyPluginObject,
+}                 from './plugin'
+import {
+  Contact,
+  Friendship,
+  Message,
+  Room,
+}                 from './user'
+import {
+  Wechaty,
+}                 from './wechaty'
+
+export type WebhookEventName = 'message'
+                             | 'friendship'
+                             | 'room-join'
+                             | 'room-leave'
+                             | 'room-topic'
+                             | 'login'
+                             | 'logout'
+                             | 'scan'
+
+export interface WebhookOptions {
+  url      : string,
+  /**
+   * Sign the body by HMAC-SHA256 with the secret,
+   * and put the hex digest to the `X-Wechaty-Signature: sha256=<digest>` header.
+   */
+  secret?  : string,
+  /**
+   * Default: all the webhook events
+   */
+  events?  : WebhookEventName[],
+  /**
+   * Times to retry before giving up a delivery. Default: 9 (about one minute)
+   */
+  retries? : number,
+  /**
+   * Milliseconds to wait for the response of every request. Default: 10 seconds
+   */
+  timeout? : number,
+  /**
+   * Append the deliveries which had been given up to this file, as JSON lines.
+   */
+  deadLetterFile? : string,
+}
+
+/**
+ * The JSON body which will be posted to the webhook url.
+ *
+ * The contacts, rooms, messages and friendships in the `data` are serialized by their `toJSON()`.
+ */
+export interface WebhookDelivery {
+  id        : string,
+  event     : WebhookEventName,
+  timestamp : number,
+  data      : object,
+}
+
+export interface WebhookDeadLetter {
+  delivery : WebhookDelivery,
+  error    : string,
+  failedAt : number,
+}
+
+const WEBHOOK_EVENT_NAME_LIST: WebhookEventName[] = [
+  'message',
+  'friendship',
+  'room-join',
+  'room-leave',
+  'room-topic',
+  'login',
+  'logout',
+  'scan',
+]
+
+const DEFAULT_TIMEOUT = 10 * 1000
+
+/**
+ * Keep the latest dead letters in memory, the older ones are only in the `deadLetterFile`
+ */
+const MAX_DEAD_LETTER_NUM = 100
+
+/**
+ * Post the Wechaty events to the webhook url as JSON.
+ *
+ * The webhook is a Wechaty plugin: use it by `bot.use(webhook)`.
+ *
+ * @example
+ * bot.use(new Webhook({
+ *   events         : ['message', 'room-join'],
+ *   secret         : 'my-secret',
+ *   url            : 'https://example.com/wechaty/webhook',
+ *   deadLetterFile : '/var/log/wechaty-webhook.dead.jsonl',
+ * }))
+ */
+export class Webhook implements WechatyPluginObject {
+
+  public readonly name = 'Webhook'
+
+  private readonly deadLetterList: WebhookDeadLetter[]
+
+  constructor (
+    private readonly options: WebhookOptions,
+  ) {
+    log.verbose('Webhook', 'constructor(%s)', options.url)
+
+    const url = new URL(options.url)
+    if (!/^https?:$/.test(url.protocol)) {
+      throw new Error('webhook url should be http or https: ' + options.url)
+    }
+
+    this.deadLetterList = []
+  }
+
+  public install (bot: Wechaty): void {
+    log.verbose('Webhook', 'install(%s)', bot)
+
+    const eventNameList = this.options.events || WEBHOOK_EVENT_NAME_LIST
+
+    for (const event of eventNameList) {
+      if (!WEBHOOK_EVENT_NAME_LIST.includes(event)) {
+        throw new Error('unsupported webhook event: ' + event)
+      }
+      bot.on(event as any, (...args: any[]) => {
+        this.deliver(event, serialize(event, args))
+          .catch(e => log.error('Webhook', 'install() deliver() rejection: %s', e))
+      })
+    }
+  }
+
+  /**
+   * The latest deliveries which had been given up after all the retries
+   */
+  public deadLetters (): WebhookDeadLetter[] {
+    return [...this.deadLetterList]
+  }
+
+  /**
+   * Deliver the data to the webhook url, with retries.
+   *
+   * @returns {Promise<boolean>} - `false` if the delivery had been put to the dead letters.
+   */
+  public async deliver (
+    event : WebhookEventName,
+    data  : object,
+  ): Promise<boolean> {
+    const delivery: WebhookDelivery = {
+      data,
+      event,
+      id        : cuid(),
+      timestamp : Date.now(),
+    }
+    log.verbose('Webhook', 'deliver(%s) %s', event, delivery.id)
+
+    const body = JSON.stringify(delivery)
+
+    try {
+      await tryWait((retry, attempt) => {
+        log.silly('Webhook', 'deliver() %s attempt #%d', delivery.id, attempt)
+        return this.post(delivery, body).catch(retry)
+      }, this.options.retries === undefined ? {} : { retries: this.options.retries })
+      return true
+
+    } catch (e) {
+      log.error('Webhook', 'deliver() %s to %s failed: %s', delivery.id, this.options.url, e && e.message)
+      await this.deadLetter({
+        delivery,
+        error    : (e && e.message) || String(e),
+        failedAt : Date.now(),
+      })
+      return false
+    }
+  }
+
+  private async post (
+    delivery : WebhookDelivery,
+    body     : string,
+  ): Promise<void> {
+    const headers: http.OutgoingHttpHeaders = {
+      'Content-Length'     : Buffer.byteLength(body),
+      'Content-Type'       : 'application/json; charset=utf-8',
+      'X-Wechaty-Delivery' : delivery.id,
+      'X-Wechaty-Event'    : delivery.event,
+    }
+    if (this.options.secret) {
+      headers['X-Wechaty-Signature'] = 'sha256=' + webhookSignature(this.options.secret, body)
+    }
+
+    const url     = new URL(this.options.url)
+    const request = url.protocol === 'https:' ? https.request : http.request
+    const timeout = this.options.timeout || DEFAULT_TIMEOUT
+
+    await new Promise<void>((resolve, reject) => {
+      const req = request(url, { headers, method: 'POST' }, res => {
+        res.resume()
+        const status = res.statusCode || 0
+        if (status >= 200 && status < 300) {
+          resolve()
+        } else {
+          reject(new Error(`webhook responded ${status}`))
+        }
+      })
+      req.setTimeout(timeout, () => req.abort())
+      req.on('error', reject)
+      req.end(body)
+    })
+  }
+
+  private async deadLetter (deadLetter: WebhookDeadLetter): Promise<void> {
+    this.deadLetterList.push(deadLetter)
+    if (this.deadLetterList.length > MAX_DEAD_LETTER_NUM) {
+      this.deadLetterList.shift()
+    }
+
+    const file = this.options.deadLetterFile
+    if (!file) {
+      return
+    }
+    try {
+      await new Promise<void>((resolve, reject) => {
+        fs.appendFile(file, JSON.stringify(deadLetter) + '\n', e => e ? reject(e) : resolve())
+      })
+    } catch (e) {
+      log.error('Webhook', 'deadLetter() append to %s failed: %s', file, e && e.message)
+    }
+  }
+
+}
+
+/**
+ * HMAC-SHA256 hex digest of the body, the webhook receiver can verify the request by it.
+ */
+export function webhookSignature (
+  secret : string,
+  body   : string,
+): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(body)
+    .digest('hex')
+}
+
+function serialize (
+  event   : WebhookEventName,
+  argList : any[],
+): object {
+  const toJSON = (target?: Contact | Room) => target ? target.toJSON() : undefined
+
+  switch (event) {
+    case 'message': {
+      const message: Message = argList[0]
+      return { message: message.toJSON() }
+    }
+    case 'friendship': {
+      const friendship: Friendship = argList[0]
+      return { friendship: friendship.toJSON() }
+    }
+    case 'room-join': {
+      const [room, inviteeList, inviter, date] = argList as [Room, Contact[], Contact, undefined | Date]
+      return {
+        date        : date && date.getTime(),
+        inviteeList : inviteeList.map(contact => contact.toJSON()),
+        inviter     : toJSON(inviter),
+        room        : room.toJSON(),
+      }
+    }
+    case 'room-leave': {
+      const [room, leaverList, remover, date] = argList as [Room, Contact[], undefined | Contact, undefined | Date]
+      return {
+        date       : date && date.getTime(),
+        leaverList : leaverList.map(contact => contact.toJSON()),
+        remover    : toJSON(remover),
+        room       : room.toJSON(),
+      }
+    }
+    case 'room-topic': {
+      const [room, topic, oldTopic, changer, date] = argList as [Room, string, string, Contact, undefined | Date]
+      return {
+        changer : toJSON(changer),
+        date    : date && date.getTime(),
+        oldTopic,
+        room    : room.toJSON(),
+        topic,
+      }
+    }
+    case 'login':
+    case 'logout': {
+      const user: Contact = argList[0]
+      return { user: user.toJSON() }
+    }
+    case 'scan': {
+      const [qrcode, status, data] = argList
+      return {
+        data,
+        qrcode,
+        status,
+      }
+    }
+  }
+}
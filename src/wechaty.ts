@@ -65,9 +65,64 @@ import {
   Sayable,
 }                       from './types'
 
+import {
+  splitText,
+  SplitTextOptions,
+}                       from './helper-functions'
+import {
+  broadcast,
+  BroadcastContent,
+  BroadcastOptions,
+  BroadcastQuery,
+  BroadcastResult,
+}                       from './broadcast'
+import {
+  HttpGateway,
+  HttpGatewayOptions,
+}                       from './http-gateway'
 import {
   Io,
 }                       from './io'
+import {
+  MediaCache,
+}                       from './media-cache'
+import {
+  MessageArchiveStore,
+  toArchiveRecord,
+}                       from './message-archive'
+import {
+  RoomStats,
+  RoomStatsOptions,
+  RoomStatsQuery,
+  RoomStatsReport,
+}                       from './room-stats'
+import {
+  RoomRoster,
+  RoomRosterEvent,
+  RoomRosterOptions,
+}                       from './room-roster'
+import {
+  ScheduleContent,
+  ScheduleJob,
+  Scheduler,
+}                       from './scheduler'
+import {
+  SendQueue,
+  SendQueueOptions,
+}                       from './send-queue'
+import {
+  Session,
+  SessionManager,
+  SessionManagerOptions,
+}                       from './session'
+import {
+  composeMiddleware,
+  MessageMiddleware,
+}                       from './middleware'
+import {
+  PluginManager,
+  WechatyPlugin,
+}                       from './plugin'
 import {
   PuppetModuleName,
 }                       from './puppet-config'
@@ -108,9 +163,27 @@ export interface WechatyOptions {
   puppet?        : PuppetModuleName | Puppet, // Puppet name or instance
   puppetOptions? : PuppetOptions,             // Puppet TOKEN
   ioToken?       : string,                    // Io TOKEN
+
+  sessionOptions? : SessionManagerOptions,
+  sendQueue?      : SendQueueOptions,
+  httpGateway?    : boolean | HttpGatewayOptions,
+  messageArchive? : MessageArchiveStore,
+  mediaCache?     : MediaCache,
+  roomRoster?     : boolean | RoomRosterOptions,
+  roomStats?      : boolean | RoomStatsOptions,
+  textSplit?      : boolean | TextSplitOptions,
 }
 
-const PUPPET_MEMORY_NAME = 'puppet'
+/**
+ * Split the long text of `say()` into numbered parts
+ */
+export type TextSplitOptions = Pick<SplitTextOptions, 'maxLength' | 'numbered'>
+
+const PUPPET_MEMORY_NAME  = 'puppet'
+const SESSION_MEMORY_NAME = 'session'
+const SCHEDULER_MEMORY_NAME = 'scheduler'
+const ROOM_ROSTER_MEMORY_NAME = 'room-roster'
+const ROOM_STATS_MEMORY_NAME  = 'room-stats'
 
 /**
  * Main bot class.
@@ -150,8 +223,17 @@ export class Wechaty extends Accessory implements Sayable {
 
   private memory?: MemoryCard
 
-  private lifeTimer? : NodeJS.Timer
-  private io?        : Io
+  private lifeTimer?   : NodeJS.Timer
+  private io?          : Io
+  private httpGateway? : HttpGateway
+
+  private sessionManager? : SessionManager
+  private scheduler?      : Scheduler
+  private roomRoster?     : RoomRoster
+  private roomStats?      : RoomStats
+
+  private readonly pluginManager  : PluginManager
+  private readonly middlewareList : MessageMiddleware[]
 
   /**
    * the cuid
@@ -159,6 +241,21 @@ export class Wechaty extends Accessory implements Sayable {
    */
   public readonly id : string
 
+  /**
+   * All the messages sent by `say()` will go through this queue.
+   */
+  public readonly sendQueue : SendQueue
+
+  /**
+   * All the incoming and outgoing messages will be added to this archive, if it had been set.
+   */
+  public readonly messageArchive? : MessageArchiveStore
+
+  /**
+   * The media files will be saved to this cache by `message.toFileBox({ cache: true })`, if it had been set.
+   */
+  public readonly mediaCache? : MediaCache
+
   public readonly Contact       : typeof Contact
   public readonly ContactSelf   : typeof ContactSelf
   public readonly Friendship    : typeof Friendship
@@ -229,6 +326,14 @@ export class Wechaty extends Accessory implements Sayable {
    * @property   {PuppetModuleName | Puppet}    puppet             -Puppet name or instance
    * @property   {Partial<PuppetOptions>} puppetOptions      -Puppet TOKEN
    * @property   {string}                 ioToken            -Io TOKEN
+   * @property   {SessionManagerOptions}  sessionOptions     -Options for the conversation sessions, like `ttl`
+   * @property   {SendQueueOptions}       sendQueue          -Rate limits for sending messages, see {@link SendQueue}
+   * @property   {boolean | HttpGatewayOptions} httpGateway  -Start the HTTP REST gateway on `config.httpPort`, see {@link HttpGateway}
+   * @property   {MessageArchiveStore}    messageArchive     -Archive the messages for `Message.findAll()`, see {@link JsonLinesMessageArchive}
+   * @property   {MediaCache}             mediaCache         -Cache the media files for `message.toFileBox({ cache: true })`, see {@link MediaCache}
+   * @property   {boolean | RoomRosterOptions} roomRoster   -Snapshot the members of the rooms, and emit the `room-join`/`room-leave` events missed by the puppet, see {@link RoomRoster}
+   * @property   {boolean | RoomStatsOptions} roomStats     -Count the messages and the join/leave events of the rooms for `room.stats()`, see {@link RoomStats}
+   * @property   {boolean | TextSplitOptions} textSplit      -Split the long text of `say()` into numbered parts, `maxLength` defaults to 2000
    */
 
   /**
@@ -253,6 +358,16 @@ export class Wechaty extends Accessory implements Sayable {
     this.state      = new StateSwitch('Wechaty', log)
     this.readyState = new StateSwitch('WechatyReady', log)
 
+    this.pluginManager  = new PluginManager(this)
+    this.middlewareList = []
+    this.sendQueue      = new SendQueue(options.sendQueue)
+    this.messageArchive = options.messageArchive
+    this.mediaCache     = options.mediaCache
+
+    if (options.roomStats) {
+      this.initRoomStats()
+    }
+
     /**
      * @ignore
      * Clone Classes for this bot and attach the `puppet` to the Class
@@ -545,12 +660,174 @@ export class Wechaty extends Accessory implements Sayable {
   private addListenerFunction (event: WechatyEventName, listener: AnyFunction): void {
     log.verbose('Wechaty', 'addListenerFunction(%s)', event)
 
-    super.on(event, (...args: any[]) => {
+    /**
+     * Listeners registered by a plugin will report their exceptions to that plugin,
+     * including the rejections from the async listeners.
+     */
+    const pluginErrorHandler = this.pluginManager.errorHandler()
+
+    const wrappedListener = (...args: any[]) => {
       try {
-        listener.apply(this, args)
+        const result = listener.apply(this, args)
+        if (pluginErrorHandler && result && typeof result.catch === 'function') {
+          result.catch(pluginErrorHandler)
+        }
       } catch (e) {
         log.error('Wechaty', 'addListenerFunction(%s) listener exception: %s', event, e)
-        this.emit('error', e)
+        if (pluginErrorHandler) {
+          pluginErrorHandler(e)
+        } else {
+          this.emit('error', e)
+        }
+      }
+    }
+
+    super.on(event, wrappedListener)
+    this.pluginManager.track(() => this.removeListener(event, wrappedListener))
+  }
+
+  /**
+   * Use plugins to extend the bot.
+   *
+   * A plugin is a function (or an object with an `install` function) which receives the bot,
+   * and can register listeners for it by `bot.on()`.
+   * All the listeners registered by a plugin will be removed when the bot stops,
+   * and the plugin will be installed again when the bot starts next time.
+   *
+   * @param {...WechatyPlugin} pluginList
+   * @returns {Wechaty} - this for chaining
+   *
+   * @example
+   * function DingDong (bot: Wechaty) {
+   *   bot.on('message', async message => {
+   *     if (message.text() === 'ding') {
+   *       await message.say('dong')
+   *     }
+   *   })
+   * }
+   *
+   * const bot = new Wechaty()
+   * bot.use(DingDong)
+   * await bot.start()
+   *
+   * @example <caption>Plugin object with priority and error handler</caption>
+   * bot.use({
+   *   name     : 'logger',
+   *   priority : 10,
+   *   install  : bot => {
+   *     bot.on('message', message => console.log(`${message}`))
+   *     return () => console.log('logger uninstalled')
+   *   },
+   *   onError  : e => console.error('logger:', e),
+   * })
+   */
+  public use (...pluginList: WechatyPlugin[]): this {
+    log.verbose('Wechaty', 'use(%s)', pluginList.length)
+
+    pluginList.forEach(plugin => this.pluginManager.add(plugin))
+
+    /**
+     * The bot has been started (or is starting), install the new plugins now.
+     * Otherwise they will be installed by `start()`
+     */
+    if (this.state.on()) {
+      this.pluginManager.install()
+        .catch(e => log.error('Wechaty', 'use() pluginManager.install() rejection: %s', e))
+    }
+
+    return this
+  }
+
+  /**
+   * Add middlewares for messages.
+   *
+   * The middlewares will be called by the order they were added, before any `message` listener is called.
+   * A middleware can change the message, or drop it by not calling `next()`.
+   * Middlewares added by a plugin will be removed when the bot stops.
+   *
+   * @param {...MessageMiddleware} middlewareList
+   * @returns {Wechaty} - this for chaining
+   *
+   * @example <caption>Ignore the messages sent by the bot itself</caption>
+   * bot.middleware(async (message, next) => {
+   *   if (message.self()) {
+   *     return
+   *   }
+   *   await next()
+   * })
+   *
+   * @example <caption>Measure the time of handling a message</caption>
+   * bot.middleware(async (message, next) => {
+   *   const start = Date.now()
+   *   await next()
+   *   console.log(`${message} handled in ${Date.now() - start} ms`)
+   * })
+   */
+  public middleware (...middlewareList: MessageMiddleware[]): this {
+    log.verbose('Wechaty', 'middleware(%s)', middlewareList.length)
+
+    /**
+     * Middlewares registered by a plugin will report their exceptions to that plugin,
+     * the exceptions from the downstream of `next()` will be thrown as is.
+     */
+    const pluginErrorHandler = this.pluginManager.errorHandler()
+
+    for (const middleware of middlewareList) {
+      const wrappedMiddleware: MessageMiddleware = !pluginErrorHandler
+        ? middleware
+        : async (message, next) => {
+          let downstream = false
+          try {
+            await middleware(message, async () => {
+              try {
+                await next()
+              } catch (e) {
+                downstream = true
+                throw e
+              }
+            })
+          } catch (e) {
+            if (downstream) {
+              throw e
+            }
+            log.error('Wechaty', 'middleware() plugin middleware exception: %s', e && e.message)
+            pluginErrorHandler(e)
+          }
+        }
+
+      this.middlewareList.push(wrappedMiddleware)
+      this.pluginManager.track(() => {
+        const index = this.middlewareList.indexOf(wrappedMiddleware)
+        if (index > -1) {
+          this.middlewareList.splice(index, 1)
+        }
+      })
+    }
+
+    return this
+  }
+
+  /**
+   * Feed the events to the `roomStats`, which will be created by `start()`
+   */
+  private initRoomStats (): void {
+    log.verbose('Wechaty', 'initRoomStats()')
+
+    const onError = (e: Error) => log.error('Wechaty', 'initRoomStats() roomStats rejection: %s', e && e.message)
+
+    this.on('message', message => {
+      if (this.roomStats) {
+        this.roomStats.onMessage(message).catch(onError)
+      }
+    })
+    this.on('room-join', (room, inviteeList, _, date) => {
+      if (this.roomStats) {
+        this.roomStats.onMembership('join', room, inviteeList, date).catch(onError)
+      }
+    })
+    this.on('room-leave', (room, leaverList, _, date) => {
+      if (this.roomStats) {
+        this.roomStats.onMembership('leave', room, leaverList, date).catch(onError)
       }
     })
   }
@@ -640,6 +917,14 @@ export class Wechaty extends Accessory implements Sayable {
             const contact = this.ContactSelf.load(contactId)
             await contact.ready()
             this.emit('login', contact)
+
+            if (this.scheduler) {
+              await this.scheduler.arm()
+            }
+            if (this.roomRoster) {
+              this.roomRoster.reconcileAll()
+                .catch(e => log.warn('Wechaty', 'initPuppetEventBridge() roomRoster.reconcileAll() rejection: %s', e))
+            }
           })
           break
 
@@ -648,6 +933,10 @@ export class Wechaty extends Accessory implements Sayable {
             const contact = this.ContactSelf.load(contactId)
             await contact.ready()
             this.emit('logout', contact)
+
+            if (this.scheduler) {
+              this.scheduler.disarm()
+            }
           })
           break
 
@@ -655,7 +944,15 @@ export class Wechaty extends Accessory implements Sayable {
           puppet.on('message', async messageId => {
             const msg = this.Message.load(messageId)
             await msg.ready()
-            this.emit('message', msg)
+            await this.archiveMessage(msg)
+
+            const middleware = composeMiddleware([...this.middlewareList])
+            try {
+              await middleware(msg, () => { this.emit('message', msg) })
+            } catch (e) {
+              log.error('Wechaty', 'initPuppetEventBridge() message middleware exception: %s', e && e.message)
+              this.emit('error', e)
+            }
           })
           break
 
@@ -678,7 +975,8 @@ export class Wechaty extends Accessory implements Sayable {
         case 'room-join':
           puppet.on('room-join', async (roomId, inviteeIdList, inviterId, timestamp) => {
             const room = this.Room.load(roomId)
-            await room.sync()
+            await room.ready(true)
+            await this.reconcileRoom(room, inviteeIdList)
 
             const inviteeList = inviteeIdList.map(id => this.Contact.load(id))
             await Promise.all(inviteeList.map(c => c.ready()))
@@ -695,7 +993,8 @@ export class Wechaty extends Accessory implements Sayable {
         case 'room-leave':
           puppet.on('room-leave', async (roomId, leaverIdList, removerId, timestamp) => {
             const room = this.Room.load(roomId)
-            await room.sync()
+            await room.ready(true)
+            await this.reconcileRoom(room, leaverIdList)
 
             const leaverList = leaverIdList.map(id => this.Contact.load(id))
             await Promise.all(leaverList.map(c => c.ready()))
@@ -829,7 +1128,40 @@ export class Wechaty extends Accessory implements Sayable {
         log.silly('Wechaty', 'start() memory.load() had already loaded')
       }
 
+      this.sessionManager = new SessionManager(
+        this.memory.multiplex(SESSION_MEMORY_NAME),
+        this.options.sessionOptions,
+      )
+      this.sessionManager.prune()
+        .catch(e => log.warn('Wechaty', 'start() sessionManager.prune() rejection: %s', e))
+
+      this.scheduler = new Scheduler(
+        this,
+        this.memory.multiplex(SCHEDULER_MEMORY_NAME),
+      )
+
+      if (this.options.roomStats) {
+        this.roomStats = new RoomStats(
+          this,
+          this.memory.multiplex(ROOM_STATS_MEMORY_NAME),
+          typeof this.options.roomStats === 'object'
+            ? this.options.roomStats
+            : {},
+        )
+      }
+
+      if (this.options.roomRoster) {
+        this.roomRoster = new RoomRoster(
+          this,
+          this.memory.multiplex(ROOM_ROSTER_MEMORY_NAME),
+          typeof this.options.roomRoster === 'object'
+            ? this.options.roomRoster
+            : {},
+        )
+      }
+
       await this.initPuppet()
+      await this.pluginManager.install()
       await this.puppet.start()
 
       if (this.options.ioToken) {
@@ -840,6 +1172,16 @@ export class Wechaty extends Accessory implements Sayable {
         await this.io.start()
       }
 
+      if (this.options.httpGateway) {
+        this.httpGateway = new HttpGateway(
+          this,
+          typeof this.options.httpGateway === 'object'
+            ? this.options.httpGateway
+            : {},
+        )
+        await this.httpGateway.start()
+      }
+
     } catch (e) {
       console.error(e)
       log.error('Wechaty', 'start() exception: %s', e && e.message)
@@ -895,6 +1237,34 @@ export class Wechaty extends Accessory implements Sayable {
       this.lifeTimer = undefined
     }
 
+    this.sendQueue.clear('Wechaty is stopping')
+    if (this.scheduler) {
+      this.scheduler.disarm()
+    }
+
+    try {
+      if (this.roomStats) {
+        await this.roomStats.flush()
+      }
+    } catch (e) {
+      log.warn('Wechaty', 'stop() roomStats.flush() exception: %s', e.message)
+    }
+
+    try {
+      if (this.httpGateway) {
+        await this.httpGateway.stop()
+        this.httpGateway = undefined
+      }
+    } catch (e) {
+      log.warn('Wechaty', 'stop() httpGateway.stop() exception: %s', e.message)
+    }
+
+    try {
+      await this.pluginManager.uninstall()
+    } catch (e) {
+      log.warn('Wechaty', 'stop() pluginManager.uninstall() exception: %s', e.message)
+    }
+
     try {
       await this.puppet.stop()
     } catch (e) {
@@ -924,6 +1294,193 @@ export class Wechaty extends Accessory implements Sayable {
     })
   }
 
+  /**
+   * Send the content to the contact or room at the specific time.
+   *
+   * The job will be saved in the memory of the bot, and will be re-armed after the next login.
+   *
+   * @param {string | Date} when - 5 fields cron expression for the repeated job, or Date for one time
+   * @param {Contact | Room} target
+   * @param {(string | Contact | FileBox | UrlLink | MiniProgram)} content - anything that `say()` accepts
+   * @returns {Promise<string>} - the job id
+   * @example
+   * // daily report at 9:00 from Monday to Friday
+   * await bot.schedule('0 9 * * 1-5', room, 'Good morning!')
+   * // reminder in one hour
+   * await bot.schedule(new Date(Date.now() + 60 * 60 * 1000), contact, 'Time to go')
+   */
+  public async schedule (
+    when    : string | Date,
+    target  : Contact | Room,
+    content : ScheduleContent,
+  ): Promise<string> {
+    log.verbose('Wechaty', 'schedule(%s, %s, %s)', when, target, content)
+    return this.getScheduler().add(when, target, content)
+  }
+
+  /**
+   * Remove the scheduled job.
+   *
+   * @param {string} id - the job id returned by `schedule()`
+   * @returns {Promise<boolean>} - `false` if the job does not exist
+   */
+  public async unschedule (id: string): Promise<boolean> {
+    log.verbose('Wechaty', 'unschedule(%s)', id)
+    return this.getScheduler().remove(id)
+  }
+
+  /**
+   * List all the scheduled jobs.
+   */
+  public async scheduleList (): Promise<ScheduleJob[]> {
+    log.verbose('Wechaty', 'scheduleList()')
+    return this.getScheduler().list()
+  }
+
+  /**
+   * Send the content to many contacts and rooms, and report the result of every target.
+   *
+   * All the messages go through the `sendQueue`, so the rate limits will be respected.
+   *
+   * @param {(string | Contact | FileBox | UrlLink | MiniProgram | Message)} content - anything that `say()` accepts, or the message to be forwarded
+   * @param {(Array<Contact | Room> | BroadcastQuery)} targets - the list of targets, or the query for `Contact.findAll()` and `Room.findAll()`
+   * @param {BroadcastOptions} [options]
+   * @returns {Promise<BroadcastResult>}
+   * @example
+   * const result = await bot.broadcast('Release 1.0 is out!', { room: { topic: /^team-/ } }, { delay: 1000 })
+   * for (const failure of result.failureList) {
+   *   console.log(`failed to send to ${failure.target}: ${failure.error}`)
+   * }
+   */
+  public async broadcast (
+    content  : BroadcastContent,
+    targets  : Array<Contact | Room> | BroadcastQuery,
+    options? : BroadcastOptions,
+  ): Promise<BroadcastResult> {
+    log.verbose('Wechaty', 'broadcast(%s, %s)', content, JSON.stringify(targets))
+    return broadcast(this, content, targets, options)
+  }
+
+  private getScheduler (): Scheduler {
+    if (!this.scheduler) {
+      throw new Error('no scheduler, please call start() first.')
+    }
+    return this.scheduler
+  }
+
+  /**
+   * Get the conversation session with the contact, in the room if provided.
+   *
+   * The session is saved in the memory of the bot, so it will survive the restart.
+   *
+   * @param {Contact} contact
+   * @param {Room} [room]
+   * @returns {Promise<Session>}
+   * @example
+   * const session = await bot.session(contact)
+   * session.data.name = 'huan'
+   * await session.save()
+   */
+  public async session<T extends object = any> (
+    contact : Contact,
+    room?   : null | Room,
+  ): Promise<Session<T>> {
+    log.verbose('Wechaty', 'session(%s, %s)', contact, room || '')
+
+    if (!this.sessionManager) {
+      throw new Error('no session manager, please call start() first.')
+    }
+    return this.sessionManager.load<T>(contact, room)
+  }
+
+  /**
+   * @private
+   * Split the long text for `say()` by the `textSplit` option.
+   *
+   * @param {string} text
+   * @param {string} [prefix] - the mentions which will be put before the first part
+   * @returns {string[]} - `[text]` if the `textSplit` option is not set, or the text is not too long.
+   */
+  public splitText (
+    text   : string,
+    prefix = '',
+  ): string[] {
+    const options = this.options.textSplit
+    if (!options) {
+      return [text]
+    }
+
+    return splitText(text, {
+      maxLength : typeof options === 'object' ? options.maxLength : undefined,
+      numbered  : typeof options === 'object' ? options.numbered !== false : true,
+      prefix,
+    })
+  }
+
+  /**
+   * @private
+   * Diff the members of the room with the snapshot in the `roomRoster`, if it had been enabled.
+   */
+  public async reconcileRoom (
+    room          : Room,
+    handledIdList : string[] = [],
+  ): Promise<void> {
+    if (!this.roomRoster) {
+      return
+    }
+    log.verbose('Wechaty', 'reconcileRoom(%s)', room)
+
+    try {
+      await this.roomRoster.reconcile(room, handledIdList)
+    } catch (e) {
+      log.error('Wechaty', 'reconcileRoom() exception: %s', e && e.message)
+      Raven.captureException(e)
+    }
+  }
+
+  /**
+   * @private
+   * The member changes of the room recorded by the `roomRoster`.
+   */
+  public async roomMemberHistory (room: Room): Promise<RoomRosterEvent[]> {
+    if (!this.roomRoster) {
+      throw new Error('no room roster, please set the `roomRoster` option of Wechaty.')
+    }
+    return this.roomRoster.history(room)
+  }
+
+  /**
+   * @private
+   * The activity statistics of the room counted by the `roomStats`.
+   */
+  public async roomStatsReport (
+    room   : Room,
+    query? : RoomStatsQuery,
+  ): Promise<RoomStatsReport> {
+    if (!this.roomStats) {
+      throw new Error('no room stats, please set the `roomStats` option of Wechaty.')
+    }
+    return this.roomStats.report(room, query)
+  }
+
+  /**
+   * @private
+   * Add the incoming or outgoing message to the `messageArchive`, if it had been set.
+   */
+  public async archiveMessage (message: Message): Promise<void> {
+    if (!this.messageArchive) {
+      return
+    }
+    log.silly('Wechaty', 'archiveMessage(%s)', message)
+
+    try {
+      await this.messageArchive.add(toArchiveRecord(message))
+    } catch (e) {
+      log.error('Wechaty', 'archiveMessage() exception: %s', e && e.message)
+      Raven.captureException(e)
+    }
+  }
+
   /**
    * Logout the bot
    *
@@ -983,11 +1540,11 @@ export class Wechaty extends Accessory implements Sayable {
     return user
   }
 
-  public async say (text:     string)      : Promise<void>
-  public async say (contact:  Contact)     : Promise<void>
-  public async say (file:     FileBox)     : Promise<void>
-  public async say (mini:     MiniProgram) : Promise<void>
-  public async say (url:      UrlLink)     : Promise<void>
+  public async say (text:     string)      : Promise<void | Message>
+  public async say (contact:  Contact)     : Promise<void | Message>
+  public async say (file:     FileBox)     : Promise<void | Message>
+  public async say (mini:     MiniProgram) : Promise<void | Message>
+  public async say (url:      UrlLink)     : Promise<void | Message>
 
   public async say (...args: never[]): Promise<never>
 
@@ -1000,7 +1557,7 @@ export class Wechaty extends Accessory implements Sayable {
    * send text, Contact, or file to bot. </br>
    * You can use {@link https://www.npmjs.com/package/file-box|FileBox} to send file
    *
-   * @returns {Promise<void>}
+   * @returns {Promise<void | Message>} - the sent message, if the puppet supports to return it
    *
    * @example
    * const bot = new Wechaty()
@@ -1051,10 +1608,10 @@ export class Wechaty extends Accessory implements Sayable {
               | FileBox
               | MiniProgram
               | UrlLink
-  ): Promise<void> {
+  ): Promise<void | Message> {
     log.verbose('Wechaty', 'say(%s)', something)
     // huan: to make TypeScript happy
-    await this.userSelf().say(something as any)
+    return this.userSelf().say(something as any)
   }
 
   /**